@@ -34,8 +34,14 @@ export default defineConfig({
             { text: "Installation", link: "/guide/installation" },
             { text: "Configuration", link: "/guide/configuration" },
             { text: "Language Switching", link: "/guide/language-switching" },
+            { text: "Theming", link: "/guide/theming" },
+            { text: "Display Modes", link: "/guide/display-modes" },
+            { text: "Multiple Instances", link: "/guide/multiple-instances" },
             { text: "Authentication", link: "/guide/authentication" },
+            { text: "Route Synchronization", link: "/guide/route-sync" },
+            { text: "React", link: "/guide/react" },
             { text: "Webhooks", link: "/guide/webhooks" },
+            { text: "Testing", link: "/guide/testing" },
             { text: "Event Handling", link: "/guide/events" },
             { text: "Error Handling", link: "/guide/error-handling" },
             { text: "Best Practices", link: "/guide/best-practices" },
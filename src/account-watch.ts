@@ -0,0 +1,129 @@
+import type { WalletAccountChange, WalletAuthType } from "./types";
+
+/**
+ * Account or chain change reported by a wallet, before it is compared with
+ * the logged in account
+ */
+export type WalletAccountUpdate = Pick<
+  WalletAccountChange,
+  "reason" | "account" | "chainId"
+>;
+
+/**
+ * Watch the account of a login wallet. Each chain reports changes through
+ * its own events:
+ * - EVM: `accountsChanged`, `chainChanged` and `disconnect` (EIP-1193)
+ * - Solana: Wallet Standard `change` events, or `accountChanged` and
+ *   `disconnect` of injected providers
+ * - TON: `onStatusChange` of TON Connect
+ * - Bitcoin: `accountsChanged`, `networkChanged` and `disconnect`
+ *
+ * @param type - Wallet authentication type
+ * @param provider - Wallet provider of the login
+ * @param onUpdate - Called for every reported change
+ * @returns Function that stops watching
+ */
+export function watchWalletAccount(
+  type: WalletAuthType,
+  provider: any,
+  onUpdate: (update: WalletAccountUpdate) => void
+): () => void {
+  switch (type) {
+    case "WalletAddress":
+      return listen(provider, {
+        accountsChanged: (accounts: string[]) => onUpdate(toUpdate(accounts)),
+        chainChanged: (chainId: string) =>
+          onUpdate({ reason: "chainChanged", account: null, chainId }),
+        disconnect: () => onUpdate({ reason: "disconnect", account: null }),
+      });
+
+    case "SolanaAddress": {
+      const events = provider.features?.["standard:events"];
+      if (events) {
+        return events.on("change", (properties: { accounts?: any[] }) => {
+          if (properties.accounts) {
+            const account = properties.accounts[0]?.address ?? null;
+            onUpdate({
+              reason: account ? "accountsChanged" : "disconnect",
+              account,
+            });
+          }
+        });
+      }
+      return listen(provider, {
+        accountChanged: (publicKey: any) =>
+          onUpdate(
+            publicKey
+              ? { reason: "accountsChanged", account: publicKey.toString() }
+              : { reason: "disconnect", account: null }
+          ),
+        disconnect: () => onUpdate({ reason: "disconnect", account: null }),
+      });
+    }
+
+    case "TonAddress":
+      if (typeof provider.onStatusChange !== "function") {
+        return () => {};
+      }
+      return provider.onStatusChange((wallet: any) => {
+        const account = wallet?.account?.address ?? null;
+        onUpdate({
+          reason: account ? "accountsChanged" : "disconnect",
+          account,
+        });
+      });
+
+    case "BitcoinAddress":
+      return listen(provider, {
+        accountsChanged: (accounts: string[]) => onUpdate(toUpdate(accounts)),
+        networkChanged: (network: string) =>
+          onUpdate({ reason: "chainChanged", account: null, chainId: network }),
+        disconnect: () => onUpdate({ reason: "disconnect", account: null }),
+      });
+  }
+}
+
+/**
+ * Compare wallet addresses: EVM and bech32 Bitcoin addresses are case
+ * insensitive, Solana and TON addresses are not
+ */
+export function isSameWalletAccount(
+  type: WalletAuthType,
+  a: string,
+  b: string
+): boolean {
+  const caseInsensitive =
+    type === "WalletAddress" ||
+    (type === "BitcoinAddress" && /^(bc|tb|bcrt)1/i.test(a));
+  return caseInsensitive ? a.toLowerCase() === b.toLowerCase() : a === b;
+}
+
+/**
+ * Convert an accountsChanged event, an empty list means the wallet was
+ * disconnected or locked
+ */
+function toUpdate(accounts: string[] | undefined): WalletAccountUpdate {
+  return accounts?.[0]
+    ? { reason: "accountsChanged", account: accounts[0] }
+    : { reason: "disconnect", account: null };
+}
+
+/**
+ * Add event handlers to a provider with on/removeListener
+ */
+function listen(
+  provider: any,
+  handlers: Record<string, (...args: any[]) => void>
+): () => void {
+  if (typeof provider.on !== "function") {
+    return () => {};
+  }
+  for (const [eventName, handler] of Object.entries(handlers)) {
+    provider.on(eventName, handler);
+  }
+  return () => {
+    for (const [eventName, handler] of Object.entries(handlers)) {
+      provider.removeListener?.(eventName, handler);
+    }
+  };
+}
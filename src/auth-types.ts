@@ -0,0 +1,44 @@
+/**
+ * Authentication types shared with the Node.js entry point (must not depend on DOM types)
+ */
+
+/**
+ * Supported authentication types
+ * - Email: email address
+ * - WalletAddress: EVM address
+ * - SolanaAddress: Solana address (base58 public key)
+ * - TonAddress: TON address in raw form (`0:<hex>`), as in the TON Connect account
+ * - BitcoinAddress: Bitcoin address
+ */
+export type AuthType =
+  | "Email"
+  | "WalletAddress"
+  | "SolanaAddress"
+  | "TonAddress"
+  | "BitcoinAddress";
+
+/** Wallet authentication types */
+export type WalletAuthType = Exclude<AuthType, "Email">;
+
+/**
+ * Account type used in the signed login message
+ * (`${type}|${account}|${clientId}|${timestamp}`)
+ */
+export type SignerType = "Email" | "evm" | "solana" | "ton" | "bitcoin";
+
+/**
+ * Signed login parameters returned by a login signature endpoint, ready to be
+ * passed to `TaskOnEmbed.login()`
+ */
+export interface SignedLoginParams {
+  /** Type of login credential */
+  type: AuthType;
+  /** Account (email address or wallet address) */
+  account: string;
+  /** Server-generated signature for authentication */
+  signature: string;
+  /** Timestamp of the signature */
+  timestamp: number;
+  /** Default username for new user(optional) */
+  username?: string;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from "vitest";
+import { getProviderAuthTypes, sendWalletRequest } from "./chain-wallets";
+
+describe("getProviderAuthTypes", () => {
+  it("detects the chain of each provider shape", () => {
+    expect(getProviderAuthTypes({ request: vi.fn() })).toEqual([
+      "WalletAddress",
+    ]);
+    expect(
+      getProviderAuthTypes({ features: { "solana:signMessage": {} } })
+    ).toEqual(["SolanaAddress"]);
+    expect(getProviderAuthTypes({ signData: vi.fn() })).toEqual(["TonAddress"]);
+    expect(getProviderAuthTypes({ signMessage: vi.fn() })).toEqual([
+      "SolanaAddress",
+      "BitcoinAddress",
+    ]);
+  });
+
+  it("rejects values that are no wallet provider", () => {
+    expect(getProviderAuthTypes(null)).toEqual([]);
+    expect(getProviderAuthTypes("ethereum")).toEqual([]);
+    expect(getProviderAuthTypes({ connect: vi.fn() })).toEqual([]);
+  });
+});
+
+describe("sendWalletRequest", () => {
+  it("calls allowlisted methods of TON Connect instances", async () => {
+    const tonConnect = { sendTransaction: vi.fn().mockResolvedValue("boc") };
+
+    await expect(
+      sendWalletRequest(tonConnect, "sendTransaction", [{ messages: [] }])
+    ).resolves.toBe("boc");
+    expect(tonConnect.sendTransaction).toHaveBeenCalledWith({ messages: [] });
+  });
+
+  it("rejects methods outside the allowlist", async () => {
+    const tonConnect = { disconnectAll: vi.fn() };
+
+    await expect(
+      sendWalletRequest(tonConnect, "disconnectAll")
+    ).rejects.toMatchObject({ code: 4200 });
+    expect(tonConnect.disconnectAll).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,332 @@
+import type { WalletAuthType } from "./types";
+import { createProviderRpcError } from "./wallet-policy";
+
+/** EIP-1193 error code: the provider does not support the method */
+const UNSUPPORTED_METHOD = 4200;
+
+/**
+ * Wallet Standard features the iframe may call
+ */
+const WALLET_STANDARD_FEATURES = new Set([
+  "standard:connect",
+  "standard:disconnect",
+  "solana:signIn",
+  "solana:signMessage",
+  "solana:signTransaction",
+  "solana:signAndSendTransaction",
+]);
+
+/**
+ * Methods the iframe may call on injected providers without EIP-1193
+ * `request`, per chain. The method name comes from the iframe, so anything
+ * else is rejected: it could reach any function of the host page
+ */
+const INJECTED_WALLET_METHODS: Record<string, readonly string[]> = {
+  solana: [
+    "connect",
+    "disconnect",
+    "signMessage",
+    "signTransaction",
+    "signAllTransactions",
+    "signAndSendTransaction",
+  ],
+  ton: ["connect", "disconnect", "signData", "sendTransaction"],
+  bitcoin: [
+    "requestAccounts",
+    "getAccounts",
+    "getPublicKey",
+    "getNetwork",
+    "switchNetwork",
+    "getBalance",
+    "signMessage",
+    "signPsbt",
+    "signPsbts",
+    "pushPsbt",
+    "sendBitcoin",
+  ],
+};
+
+const INJECTED_METHODS = new Set(Object.values(INJECTED_WALLET_METHODS).flat());
+
+/**
+ * Authentication types a wallet provider can log in with, by its shape
+ * - WalletAddress: EIP-1193 `request`
+ * - SolanaAddress: Wallet Standard `solana:signMessage` feature, or injected
+ *   `signMessage`
+ * - TonAddress: TON Connect `signData`
+ * - BitcoinAddress: injected `signMessage` (Unisat compatible)
+ *
+ * @param provider - Wallet provider
+ * @returns The supported types, empty if the value is no wallet provider
+ */
+export function getProviderAuthTypes(provider: any): WalletAuthType[] {
+  if (
+    !provider ||
+    (typeof provider !== "object" && typeof provider !== "function")
+  ) {
+    return [];
+  }
+  const types: WalletAuthType[] = [];
+  if (typeof provider.request === "function") {
+    types.push("WalletAddress");
+  }
+  if (
+    provider.features?.["solana:signMessage"] ||
+    typeof provider.signMessage === "function"
+  ) {
+    types.push("SolanaAddress");
+  }
+  if (typeof provider.signData === "function") {
+    types.push("TonAddress");
+  }
+  if (typeof provider.signMessage === "function") {
+    types.push("BitcoinAddress");
+  }
+  return types;
+}
+
+/**
+ * Wallet method used to sign the login message, per authentication type.
+ * Also used as the method of the `walletRequest` audit record.
+ */
+export const LOGIN_SIGN_METHODS: Record<WalletAuthType, string> = {
+  WalletAddress: "personal_sign",
+  SolanaAddress: "solana:signMessage",
+  TonAddress: "ton:signData",
+  BitcoinAddress: "bitcoin:signMessage",
+};
+
+/**
+ * Key a provider passed to `login()` is exposed to the iframe under, per
+ * authentication type, when it is neither detected nor registered
+ */
+export const LOGIN_PROVIDER_KEYS: Record<WalletAuthType, string> = {
+  WalletAddress: "login.ethereum",
+  SolanaAddress: "login.solana",
+  TonAddress: "login.ton",
+  BitcoinAddress: "login.bitcoin",
+};
+
+/**
+ * Build the parameters of the login signature request. `personal_sign` takes
+ * the hex encoded message, the other chains sign the message text.
+ *
+ * @param type - Wallet authentication type
+ * @param account - Wallet address
+ * @param hexMessage - Hex encoded login message sent by the iframe
+ */
+export function getLoginSignParams(
+  type: WalletAuthType,
+  account: string,
+  hexMessage: string
+): any[] {
+  if (type === "WalletAddress") {
+    return [hexMessage, account];
+  }
+  return [hexToText(hexMessage), account];
+}
+
+/**
+ * Sign the login message with the wallet of the authentication type
+ *
+ * @param type - Wallet authentication type
+ * @param provider - Wallet provider matching the type
+ * @param params - Parameters built by getLoginSignParams
+ * @returns Signature: hex for EVM, base58 for Solana, the JSON encoded
+ * `signData` response for TON, base64 for Bitcoin
+ */
+export async function signLoginMessage(
+  type: WalletAuthType,
+  provider: any,
+  params: any[]
+): Promise<string> {
+  const [message, account] = params;
+  switch (type) {
+    case "WalletAddress":
+      return provider.request({ method: "personal_sign", params });
+    case "SolanaAddress":
+      return signSolanaMessage(provider, account, message);
+    case "TonAddress":
+      return JSON.stringify(
+        await provider.signData({ type: "text", text: message })
+      );
+    case "BitcoinAddress": {
+      const result = await provider.signMessage(message);
+      return typeof result === "string" ? result : result.signature;
+    }
+  }
+}
+
+/**
+ * Send a wallet request from the iframe to a provider of any chain
+ * - EIP-1193 providers: `provider.request({ method, params })`
+ * - Wallet Standard wallets: the feature name as method (e.g.
+ *   'standard:connect'), params as the feature arguments
+ * - other injected providers (e.g. `window.solana`, `window.unisat`): the
+ *   provider method name (e.g. 'connect', 'getAccounts')
+ *
+ * Features and injected methods are limited to the connect, account and
+ * signing methods of each chain; other methods are rejected with a 4200
+ * (unsupported method) error.
+ *
+ * @param provider - Wallet provider
+ * @param method - Method name
+ * @param params - Method parameters
+ */
+export async function sendWalletRequest(
+  provider: any,
+  method: string,
+  params: any[] = []
+): Promise<any> {
+  if (typeof provider.request === "function") {
+    return provider.request({ method, params });
+  }
+
+  const feature = WALLET_STANDARD_FEATURES.has(method)
+    ? provider.features?.[method]
+    : undefined;
+  if (feature) {
+    const name = method.slice(method.indexOf(":") + 1);
+    const args = params.map(param => resolveStandardAccount(provider, param));
+    return toTransferable(await feature[name](...args));
+  }
+
+  if (INJECTED_METHODS.has(method) && typeof provider[method] === "function") {
+    return toTransferable(await provider[method](...params));
+  }
+  throw createProviderRpcError(
+    UNSUPPORTED_METHOD,
+    `Wallet method ${method} is not supported`
+  );
+}
+
+/**
+ * Sign a message with a Wallet Standard wallet or an injected Solana provider
+ */
+async function signSolanaMessage(
+  provider: any,
+  account: string,
+  message: string
+): Promise<string> {
+  const bytes = new TextEncoder().encode(message);
+  const feature = provider.features?.["solana:signMessage"];
+  if (feature) {
+    const walletAccount = provider.accounts?.find(
+      (item: { address: string }) => item.address === account
+    );
+    if (!walletAccount) {
+      throw new Error(`Account ${account} is not connected`);
+    }
+    const [output] = await feature.signMessage({
+      account: walletAccount,
+      message: bytes,
+    });
+    return encodeBase58(output.signature);
+  }
+
+  if (typeof provider.signMessage === "function") {
+    const result = await provider.signMessage(bytes, "utf8");
+    return encodeBase58(
+      result instanceof Uint8Array ? result : result.signature
+    );
+  }
+  throw new Error("The Solana provider does not support message signing");
+}
+
+/**
+ * Replace `{ account: { address } }` arguments sent by the iframe with the
+ * wallet's own account object, which Wallet Standard features require
+ */
+function resolveStandardAccount(wallet: any, param: any): any {
+  const address = param?.account?.address;
+  if (typeof address !== "string") {
+    return param;
+  }
+  const account = wallet.accounts?.find(
+    (item: { address: string }) => item.address === address
+  );
+  return account ? { ...param, account } : param;
+}
+
+/**
+ * Convert wallet results into values that survive postMessage: public keys
+ * become base58 strings, wallet accounts become plain objects and functions
+ * are dropped
+ */
+function toTransferable(value: any): any {
+  if (
+    value === null ||
+    typeof value !== "object" ||
+    value instanceof Uint8Array ||
+    value instanceof ArrayBuffer
+  ) {
+    return typeof value === "function" ? undefined : value;
+  }
+  if (typeof value.toBase58 === "function") {
+    return value.toBase58();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toTransferable);
+  }
+  if (typeof value.address === "string" && "publicKey" in value) {
+    // Wallet Standard accounts expose their fields through getters
+    return {
+      address: value.address,
+      publicKey: value.publicKey,
+      chains: [...(value.chains ?? [])],
+      features: [...(value.features ?? [])],
+      label: value.label,
+      icon: value.icon,
+    };
+  }
+  const result: Record<string, any> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (typeof item !== "function") {
+      result[key] = toTransferable(item);
+    }
+  }
+  return result;
+}
+
+/**
+ * Decode a hex encoded UTF-8 string (with or without 0x prefix)
+ */
+function hexToText(hex: string): string {
+  const clean = hex.startsWith("0x") ? hex.slice(2) : hex;
+  const bytes = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.slice(i * 2, i * 2 + 2), 16);
+  }
+  return new TextDecoder().decode(bytes);
+}
+
+const BASE58_ALPHABET =
+  "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+/**
+ * Base58 (Bitcoin alphabet) encoding, used for Solana signatures
+ */
+function encodeBase58(bytes: Uint8Array): string {
+  const digits: number[] = [];
+  for (const byte of bytes) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] << 8;
+      digits[i] = carry % 58;
+      carry = (carry / 58) | 0;
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = (carry / 58) | 0;
+    }
+  }
+  let result = "";
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    result += "1";
+  }
+  for (let i = digits.length - 1; i >= 0; i--) {
+    result += BASE58_ALPHABET[digits[i]];
+  }
+  return result;
+}
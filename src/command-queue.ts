@@ -0,0 +1,144 @@
+interface QueueEntry<TRemote> {
+  execute: (remote: TRemote) => Promise<any>;
+  key?: string;
+  callers: {
+    resolve: (value: any) => void;
+    reject: (error: unknown) => void;
+  }[];
+}
+
+/**
+ * Queue of calls to the iframe, so the public methods work before the iframe
+ * is connected
+ *
+ * - while disconnected, calls are buffered and run in order once connected
+ * - buffered calls with the same key are coalesced: only the last one runs
+ *   and all callers get its result (e.g. repeated setLanguage)
+ * - calls in flight when the connection is lost are buffered again, and
+ *   replayed after the reconnect
+ */
+export class CommandQueue<TRemote> {
+  private remote: TRemote | null = null;
+  private pending: QueueEntry<TRemote>[] = [];
+  private inFlight: QueueEntry<TRemote>[] = [];
+  // Generation of the running flush, null when not flushing
+  private flushing: number | null = null;
+  // Incremented on disconnect, results of older connections are ignored
+  private generation: number = 0;
+
+  /**
+   * Whether calls currently run right away
+   */
+  public get connected(): boolean {
+    return this.remote !== null;
+  }
+
+  /**
+   * Run a call now when connected, else once connected
+   *
+   * @param execute - Call to make on the remote
+   * @param key - Coalescing key: a buffered call with the same key is
+   * replaced by this one
+   */
+  public run<T>(
+    execute: (remote: TRemote) => Promise<T>,
+    key?: string
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const caller = { resolve, reject };
+      if (this.remote && this.flushing === null) {
+        void this.execute({ execute, key, callers: [caller] }, this.remote);
+        return;
+      }
+
+      const index =
+        key === undefined
+          ? -1
+          : this.pending.findIndex(entry => entry.key === key);
+      const callers =
+        index >= 0 ? this.pending.splice(index, 1)[0].callers : [];
+      this.pending.push({ execute, key, callers: [...callers, caller] });
+    });
+  }
+
+  /**
+   * Run the buffered calls in order, then run calls right away
+   */
+  public connect(remote: TRemote): void {
+    this.remote = remote;
+    if (this.flushing !== this.generation) {
+      void this.flush();
+    }
+  }
+
+  /**
+   * Buffer calls until the next connect(). Calls in flight are buffered
+   * again, ahead of the calls made since
+   */
+  public disconnect(): void {
+    this.remote = null;
+    this.generation++;
+    this.pending = [...this.inFlight, ...this.pending];
+    this.inFlight = [];
+  }
+
+  /**
+   * Reject the buffered calls and the calls in flight
+   */
+  public clear(error: unknown): void {
+    this.remote = null;
+    this.generation++;
+    const entries = [...this.inFlight, ...this.pending];
+    this.inFlight = [];
+    this.pending = [];
+    for (const entry of entries) {
+      entry.callers.forEach(caller => caller.reject(error));
+    }
+  }
+
+  private async flush(): Promise<void> {
+    const generation = this.generation;
+    this.flushing = generation;
+    try {
+      while (
+        this.remote &&
+        generation === this.generation &&
+        this.pending.length > 0
+      ) {
+        const entry = this.pending.shift()!;
+        // In order: each buffered call completes before the next one starts
+        await this.execute(entry, this.remote);
+      }
+    } finally {
+      if (this.flushing === generation) {
+        this.flushing = null;
+      }
+    }
+  }
+
+  private async execute(
+    entry: QueueEntry<TRemote>,
+    remote: TRemote
+  ): Promise<void> {
+    const generation = this.generation;
+    this.inFlight.push(entry);
+    let result: { ok: true; value: any } | { ok: false; error: unknown };
+    try {
+      result = { ok: true, value: await entry.execute(remote) };
+    } catch (error) {
+      result = { ok: false, error };
+    }
+    if (generation !== this.generation) {
+      // Connection lost meanwhile: the entry was buffered again or rejected
+      return;
+    }
+    this.inFlight.splice(this.inFlight.indexOf(entry), 1);
+    for (const caller of entry.callers) {
+      if (result.ok) {
+        caller.resolve(result.value);
+      } else {
+        caller.reject(result.error);
+      }
+    }
+  }
+}
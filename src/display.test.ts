@@ -0,0 +1,56 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createDisplaySurface, DisplaySurface } from "./display";
+
+const pressEscape = () => {
+  document.activeElement?.dispatchEvent(
+    new KeyboardEvent("keydown", { key: "Escape", bubbles: true })
+  );
+};
+
+describe("createDisplaySurface", () => {
+  let surface: DisplaySurface | null = null;
+
+  afterEach(() => {
+    surface?.destroy();
+    surface = null;
+  });
+
+  const open = (closeOnEscape?: boolean) => {
+    const onClose = vi.fn();
+    surface = createDisplaySurface({
+      mode: "modal",
+      closeOnEscape,
+      onOpen: vi.fn(),
+      onClose,
+    });
+    surface.container.appendChild(document.createElement("iframe"));
+    surface.open();
+    return onClose;
+  };
+
+  it("focuses the close button instead of the iframe", () => {
+    open();
+
+    expect(document.activeElement?.tagName).toBe("BUTTON");
+    expect(document.activeElement?.getAttribute("aria-label")).toBe("Close");
+  });
+
+  it("closes on Escape after open()", () => {
+    const onClose = open();
+
+    pressEscape();
+
+    expect(surface?.isOpen).toBe(false);
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it("stays open on Escape when closeOnEscape is false", () => {
+    const onClose = open(false);
+
+    pressEscape();
+
+    expect(surface?.isOpen).toBe(true);
+    expect(onClose).not.toHaveBeenCalled();
+  });
+});
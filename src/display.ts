@@ -0,0 +1,304 @@
+import type { TaskOnDisplayOptions } from "./types";
+
+/** Default z-index of overlays, above most page content */
+const DEFAULT_Z_INDEX = 2147483000;
+
+/**
+ * Overlay the iframe is rendered into in modal, drawer and launcher modes.
+ * The overlay stays in the page while closed, so the iframe and its penpal
+ * connection are kept across opens
+ */
+export interface DisplaySurface {
+  /** Element the iframe is rendered into */
+  readonly container: HTMLElement;
+  /** Whether the overlay is open */
+  readonly isOpen: boolean;
+  open(): void;
+  close(): void;
+  /** Remove the overlay and the launcher button from the page */
+  destroy(): void;
+}
+
+/**
+ * Options of the overlay, resolved from the embed configuration
+ */
+export interface DisplaySurfaceOptions extends TaskOnDisplayOptions {
+  /** Dialog width (CSS value), default depends on the mode */
+  width?: string;
+  /** Dialog height (CSS value), default depends on the mode */
+  height?: string;
+  /** Called after the overlay opened */
+  onOpen: () => void;
+  /** Called after the overlay closed */
+  onClose: () => void;
+}
+
+/**
+ * Create the overlay of a modal, drawer or launcher display mode
+ *
+ * While open, the overlay
+ * - keeps the keyboard focus inside the dialog (the close button and the
+ *   iframe) and restores it on close
+ * - closes on Escape and on backdrop clicks, unless disabled
+ * - locks the scrolling of the host page
+ *
+ * The close button gets the focus on open. Key presses inside the
+ * cross-origin iframe never reach the host page, so Escape there only closes
+ * the overlay when the TaskOn app forwards it through `requestClose`.
+ */
+export function createDisplaySurface(
+  options: DisplaySurfaceOptions
+): DisplaySurface {
+  const variant =
+    options.mode === "launcher"
+      ? (options.launcherTarget ?? "modal")
+      : options.mode;
+  const placement = options.placement ?? "right";
+  const zIndex = options.zIndex ?? DEFAULT_Z_INDEX;
+
+  const root = document.createElement("div");
+  root.className = ["taskon-embed-overlay", options.className]
+    .filter(Boolean)
+    .join(" ");
+  Object.assign(root.style, {
+    display: "none",
+    position: "fixed",
+    inset: "0",
+    zIndex: String(zIndex),
+  });
+
+  const backdrop = document.createElement("div");
+  Object.assign(backdrop.style, {
+    position: "absolute",
+    inset: "0",
+    background: "rgba(0, 0, 0, 0.5)",
+  });
+
+  const dialog = document.createElement("div");
+  dialog.setAttribute("role", "dialog");
+  dialog.setAttribute("aria-modal", "true");
+  dialog.setAttribute("aria-label", options.title ?? "TaskOn");
+  Object.assign(dialog.style, {
+    position: "absolute",
+    display: "flex",
+    flexDirection: "column",
+    background: "#fff",
+    boxShadow: "0 8px 32px rgba(0, 0, 0, 0.25)",
+    overflow: "hidden",
+    transition: "transform 0.2s ease-out",
+  });
+  if (variant === "drawer") {
+    Object.assign(dialog.style, {
+      top: "0",
+      bottom: "0",
+      [placement]: "0",
+      width: options.width ?? "min(480px, 100vw)",
+      height: options.height ?? "100%",
+    });
+  } else {
+    Object.assign(dialog.style, {
+      top: "50%",
+      left: "50%",
+      width: options.width ?? "min(960px, calc(100vw - 32px))",
+      height: options.height ?? "min(720px, calc(100vh - 32px))",
+      borderRadius: "12px",
+    });
+  }
+
+  const header = document.createElement("div");
+  Object.assign(header.style, {
+    display: "flex",
+    justifyContent: "flex-end",
+    flex: "none",
+    padding: "4px",
+  });
+  const closeButton = document.createElement("button");
+  closeButton.type = "button";
+  closeButton.textContent = "×";
+  closeButton.setAttribute("aria-label", "Close");
+  Object.assign(closeButton.style, {
+    width: "32px",
+    height: "32px",
+    border: "none",
+    background: "transparent",
+    fontSize: "24px",
+    lineHeight: "1",
+    cursor: "pointer",
+  });
+  header.appendChild(closeButton);
+
+  const container = document.createElement("div");
+  Object.assign(container.style, { flex: "1", minHeight: "0" });
+
+  // Focus guards: tabbing out of either end of the dialog wraps around
+  const startGuard = createFocusGuard();
+  const endGuard = createFocusGuard();
+  dialog.append(startGuard, header, container, endGuard);
+  root.append(backdrop, dialog);
+  document.body.appendChild(root);
+
+  let launcher: HTMLButtonElement | null = null;
+  if (options.mode === "launcher") {
+    launcher = document.createElement("button");
+    launcher.type = "button";
+    launcher.className = "taskon-embed-launcher";
+    launcher.textContent = options.launcherLabel ?? "Quests";
+    launcher.setAttribute("aria-haspopup", "dialog");
+    launcher.setAttribute("aria-expanded", "false");
+    Object.assign(launcher.style, {
+      position: "fixed",
+      bottom: "24px",
+      [placement]: "24px",
+      zIndex: String(zIndex - 1),
+      padding: "12px 20px",
+      border: "none",
+      borderRadius: "24px",
+      background: "#1e1e1e",
+      color: "#fff",
+      fontSize: "15px",
+      cursor: "pointer",
+      boxShadow: "0 4px 16px rgba(0, 0, 0, 0.25)",
+    });
+    document.body.appendChild(launcher);
+  }
+
+  let isOpen = false;
+  let previousFocus: HTMLElement | null = null;
+  let unlockScroll: (() => void) | null = null;
+
+  const getFocusable = (): HTMLElement[] => {
+    const iframe = container.querySelector("iframe");
+    return iframe ? [closeButton, iframe] : [closeButton];
+  };
+
+  const onKeyDown = (event: KeyboardEvent) => {
+    if (event.key === "Escape" && (options.closeOnEscape ?? true)) {
+      event.stopPropagation();
+      surface.close();
+    }
+  };
+
+  const setHiddenTransform = () => {
+    dialog.style.transform =
+      variant === "drawer"
+        ? `translateX(${placement === "right" ? "100%" : "-100%"})`
+        : "translate(-50%, -48%)";
+  };
+
+  const surface: DisplaySurface = {
+    container,
+    get isOpen() {
+      return isOpen;
+    },
+    open: () => {
+      if (isOpen) return;
+      isOpen = true;
+      previousFocus =
+        document.activeElement instanceof HTMLElement
+          ? document.activeElement
+          : null;
+
+      setHiddenTransform();
+      root.style.display = "block";
+      // Let the hidden position render first so the dialog slides in
+      void dialog.offsetWidth;
+      dialog.style.transform =
+        variant === "drawer" ? "none" : "translate(-50%, -50%)";
+
+      unlockScroll = lockBodyScroll();
+      document.addEventListener("keydown", onKeyDown, true);
+      launcher?.setAttribute("aria-expanded", "true");
+      // Not the iframe: the host page would no longer receive Escape
+      closeButton.focus();
+      options.onOpen();
+    },
+    close: () => {
+      if (!isOpen) return;
+      isOpen = false;
+      root.style.display = "none";
+      unlockScroll?.();
+      unlockScroll = null;
+      document.removeEventListener("keydown", onKeyDown, true);
+      launcher?.setAttribute("aria-expanded", "false");
+      previousFocus?.focus();
+      previousFocus = null;
+      options.onClose();
+    },
+    destroy: () => {
+      if (isOpen) {
+        unlockScroll?.();
+        unlockScroll = null;
+        document.removeEventListener("keydown", onKeyDown, true);
+        isOpen = false;
+      }
+      root.remove();
+      launcher?.remove();
+    },
+  };
+
+  startGuard.addEventListener("focus", () => {
+    getFocusable().pop()?.focus();
+  });
+  endGuard.addEventListener("focus", () => {
+    getFocusable()[0].focus();
+  });
+  closeButton.addEventListener("click", () => surface.close());
+  backdrop.addEventListener("click", () => {
+    if (options.closeOnBackdropClick ?? true) {
+      surface.close();
+    }
+  });
+  launcher?.addEventListener("click", () => {
+    if (isOpen) {
+      surface.close();
+    } else {
+      surface.open();
+    }
+  });
+
+  return surface;
+}
+
+function createFocusGuard(): HTMLElement {
+  const guard = document.createElement("div");
+  guard.tabIndex = 0;
+  guard.setAttribute("aria-hidden", "true");
+  return guard;
+}
+
+// Open overlays share one lock, so closing one of several keeps the page locked
+let scrollLocks = 0;
+let restoreScroll: (() => void) | null = null;
+
+/**
+ * Stop the host page from scrolling behind an overlay. The scrollbar width is
+ * added as padding so the page content doesn't shift
+ *
+ * @returns Function that releases the lock
+ */
+function lockBodyScroll(): () => void {
+  if (scrollLocks++ === 0) {
+    const { body, documentElement } = document;
+    const { overflow, paddingRight } = body.style;
+    const scrollbarWidth = window.innerWidth - documentElement.clientWidth;
+    body.style.overflow = "hidden";
+    if (scrollbarWidth > 0) {
+      const padding = parseFloat(getComputedStyle(body).paddingRight) || 0;
+      body.style.paddingRight = `${padding + scrollbarWidth}px`;
+    }
+    restoreScroll = () => {
+      body.style.overflow = overflow;
+      body.style.paddingRight = paddingRight;
+    };
+  }
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    if (--scrollLocks === 0) {
+      restoreScroll?.();
+      restoreScroll = null;
+    }
+  };
+}
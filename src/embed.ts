@@ -1,16 +1,88 @@
 import { EventEmitter } from "eventemitter3";
-import { connect, Connection, RemoteProxy, WindowMessenger } from "penpal";
+import {
+  connect,
+  Connection,
+  ErrorCode,
+  PenpalError,
+  RemoteProxy,
+  WindowMessenger,
+} from "penpal";
+import { CommandQueue } from "./command-queue";
+import { createDisplaySurface, DisplaySurface } from "./display";
+import {
+  TaskOnError,
+  TaskOnHandshakeTimeoutError,
+  TaskOnNotInitializedError,
+  TaskOnOfflineError,
+} from "./errors";
+import {
+  DEFAULT_OAUTH_BASE_URL,
+  DEFAULT_OAUTH_PATHS,
+  DEFAULT_OAUTH_STAGE_BASE_URL,
+  consumeOAuthReturn,
+  createOAuthFlowId,
+  createOAuthPopupReturnUrl,
+  createOAuthReturnUrl,
+  getHostUrlForInstance,
+  handleOAuthPopupCallback,
+  openOAuthPopup,
+} from "./oauth";
+import { isValidInstanceId, namespaced } from "./instance";
+import { retrySignatureLogin } from "./login";
+import { preconnect } from "./resource-hints";
+import { normalizeRoute } from "./routes";
+import {
+  prefersDarkColorScheme,
+  resolveTheme,
+  watchColorScheme,
+} from "./theme";
 import {
   AuthType,
+  AuthUser,
   LoginParams,
   LogoutOptions,
   PenpalChildMethods,
   PenpalParentMethods,
   SnsType,
   TaskCompletedData,
+  TaskOnAutoHeightOptions,
+  TaskOnDisplayOptions,
   TaskOnEmbedConfig,
   TaskOnEmbedEvents,
+  TaskOnSession,
+  TaskOnTheme,
+  WalletAccountChange,
+  WalletAuthType,
+  WalletProviderInfo,
+  WalletRequest,
+  WalletRequestRecord,
 } from "./types";
+import {
+  isSameWalletAccount,
+  WalletAccountUpdate,
+  watchWalletAccount,
+} from "./account-watch";
+import {
+  getLoginSignParams,
+  getProviderAuthTypes,
+  LOGIN_PROVIDER_KEYS,
+  LOGIN_SIGN_METHODS,
+  sendWalletRequest,
+  signLoginMessage,
+} from "./chain-wallets";
+import {
+  detectLegacyWalletProviders,
+  EIP6963ProviderDetail,
+  getEip6963ProviderKey,
+  subscribeWalletDiscovery,
+} from "./wallet-discovery";
+import {
+  applyWalletRequestOverride,
+  createProviderRpcError,
+  isWalletMethodAllowed,
+  UNAUTHORIZED,
+  USER_REJECTED_REQUEST,
+} from "./wallet-policy";
 
 /**
  * TaskOn Embed SDK for integrating TaskOn tasks into third-party websites
@@ -43,16 +115,43 @@ export class TaskOnEmbed extends EventEmitter<TaskOnEmbedEvents> {
   private config: TaskOnEmbedConfig;
   private iframe: HTMLIFrameElement | null = null;
   private container: HTMLElement | null = null;
+  private surface: DisplaySurface | null = null;
+  private fallbackElement: HTMLElement | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private readyDeferred = createDeferred();
+  private stopLazyLoad: (() => void) | null = null;
+  private started: boolean = false;
+  private destroyed: boolean = false;
+  private commands = new CommandQueue<RemoteProxy<PenpalChildMethods>>();
   private penpal: RemoteProxy<PenpalChildMethods> | null = null;
   private penpalConnection: Connection<PenpalChildMethods> | null = null;
+  private iframeLoaded: boolean = false;
+  private reconnecting: boolean = false;
+  private stopReloadWatch: (() => void) | null = null;
+  private language: string | undefined;
   private connectedProvider: any = null;
   private connectedAddress: string = "";
+  private connectedType: WalletAuthType | null = null;
+  private stopAccountWatch: (() => void) | null = null;
   public initialized: boolean = false;
   private _currentRoute: string = "";
   private availableProviders: Record<string, any> = {};
+  private providerInfo: Record<string, WalletProviderInfo> = {};
+  private customProviders: Map<
+    string,
+    { provider: any; info?: Partial<WalletProviderInfo> }
+  > = new Map();
   private eventListeners: Map<string, Map<string, (...args: any[]) => void>> =
     new Map();
-  private walletWatcher: number | null = null;
+  private stopWalletDiscovery: (() => void) | null = null;
+  private providerNotifyTimer: number | null = null;
+  private resizeTimer: number | null = null;
+  private theme: TaskOnTheme | null = null;
+  private stopColorSchemeWatch: (() => void) | null = null;
+  private pendingAutoLogin: Promise<void> | null = null;
+  private _session: TaskOnSession = { status: "anonymous" };
+  /** The iframe has no onOauthResult method, OAuth flows use redirect mode */
+  private oauthResultUnsupported: boolean = false;
 
   /**
    * Creates a new TaskOn embed instance.
@@ -61,24 +160,211 @@ export class TaskOnEmbed extends EventEmitter<TaskOnEmbedEvents> {
    */
   constructor(config: TaskOnEmbedConfig) {
     super();
+    if (config.id !== undefined && !isValidInstanceId(config.id)) {
+      throw new Error(
+        `Invalid instance id "${config.id}": use letters, digits, '-' and '_' only`
+      );
+    }
     this.config = { ...config };
+    this.theme = config.theme ?? null;
+    this.language = config.language;
   }
 
   /**
    * Initialize the embed iframe.
+   *
+   * With the default `loading: 'eager'`, loads the iframe and resolves once it
+   * is ready. With `lazy` and `manual` loading, resolves right away and the
+   * iframe is loaded later (see load() and `ready`).
+   *
+   * Methods called before the iframe is connected, even before init(), are
+   * queued and run in order once it is connected. Repeated setLanguage,
+   * setRoute and setTheme calls are coalesced: only the last one is sent.
+   *
+   * The iframe has `handshake.timeout` to connect, and is reloaded
+   * `handshake.retries` times with backoff before init() fails. Failures are
+   * also emitted as `error` event. init() can be called again after a failure.
+   *
+   * @throws {TaskOnHandshakeTimeoutError} If the iframe did not connect in time
+   * @throws {TaskOnOfflineError} If the browser is offline
    */
   public async init(): Promise<void> {
+    // Inside an OAuth popup: hand the result to the opener instead of rendering
+    if (handleOAuthPopupCallback()) {
+      return;
+    }
+    consumeOAuthReturn();
+
+    if (this.loadPromise) {
+      return this.loadPromise;
+    }
+    this.started = true;
+    this.destroyed = false;
+    preconnect(this.config.baseUrl);
+    switch (this.config.loading ?? "eager") {
+      case "eager":
+        return this.load();
+      case "lazy":
+        this.deferLoad();
+        return;
+      case "manual":
+        if (this.getDisplayOptions().mode !== "inline") {
+          this.createSurface();
+        }
+        return;
+    }
+  }
+
+  /**
+   * Load the iframe now, e.g. with `loading: 'manual'` or to skip the wait of
+   * lazy loading. Resolves once the iframe is ready; calling it again while
+   * loading or once loaded returns the same promise
+   *
+   * @throws {TaskOnNotInitializedError} If init() was not called
+   *
+   * @example
+   * ```typescript
+   * const embed = new TaskOnEmbed({ baseUrl, containerElement: '#taskon', loading: 'manual' });
+   * await embed.init();
+   *
+   * tab.addEventListener('click', () => embed.load());
+   * ```
+   */
+  public load(): Promise<void> {
+    if (!this.started) {
+      return Promise.reject(new TaskOnNotInitializedError());
+    }
+    this.stopLazyLoad?.();
+    this.stopLazyLoad = null;
+    if (!this.loadPromise) {
+      this.loadPromise = this.mount().catch(error => {
+        // Allow another attempt
+        this.loadPromise = null;
+        throw error;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  /**
+   * Resolves when the iframe is connected and calls can be made. Rejects
+   * when loading failed; a new promise is used for the next attempt
+   */
+  public get ready(): Promise<void> {
+    return this.readyDeferred.promise;
+  }
+
+  /**
+   * Render the iframe and connect to it
+   */
+  private async mount(): Promise<void> {
     // Check URL for task_invite_code parameter
     const taskInviteCode = this.getTaskInviteCodeFromUrl();
+    const ready = this.readyDeferred;
 
     this.renderIframe(taskInviteCode);
-    await this.initPenpal();
+    try {
+      await this.initPenpal();
+    } catch (error) {
+      this.handleInitError(error);
+      this.commands.clear(error);
+      ready.reject(error);
+      if (this.readyDeferred === ready) {
+        this.readyDeferred = createDeferred();
+      }
+      throw error;
+    }
+    this.removeFallback();
+    await this.initTheme();
+    await this.initAutoHeight();
     await this.initWalletProviders();
+    if (this.readyDeferred !== ready) {
+      // Destroyed while loading
+      return;
+    }
+    this.watchIframeReload();
+    this.commands.connect(this.penpal!);
     this.initialized = true;
+    ready.resolve();
+    this.emit("ready");
+  }
+
+  /**
+   * Load the iframe once the container gets near the viewport of a visible
+   * page. Modal, drawer and launcher modes load on first open()
+   */
+  private deferLoad(): void {
+    const load = () => {
+      this.load().catch(() => {
+        // Emitted as error event
+      });
+    };
+
+    this.stopLazyLoad?.();
+    this.stopLazyLoad = null;
+    if (this.getDisplayOptions().mode !== "inline") {
+      this.createSurface();
+      return;
+    }
+    const container = this.resolveContainer();
+    if (!container) {
+      throw new Error("Container element not found");
+    }
+    if (typeof IntersectionObserver === "undefined") {
+      load();
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      entries => {
+        if (!entries.some(entry => entry.isIntersecting)) return;
+        observer.disconnect();
+        if (document.visibilityState !== "hidden") {
+          load();
+          return;
+        }
+        // Background tab: wait until the page is shown
+        const onVisible = () => {
+          if (document.visibilityState === "hidden") return;
+          document.removeEventListener("visibilitychange", onVisible);
+          load();
+        };
+        document.addEventListener("visibilitychange", onVisible);
+        this.stopLazyLoad = () =>
+          document.removeEventListener("visibilitychange", onVisible);
+      },
+      { rootMargin: this.config.lazyRootMargin ?? "200px" }
+    );
+    observer.observe(container);
+    this.stopLazyLoad = () => observer.disconnect();
+  }
+
+  /**
+   * Call the iframe now when connected, else queue the call until it is
+   *
+   * @param key - Coalescing key, see CommandQueue.run
+   */
+  private call<T>(
+    execute: (penpal: RemoteProxy<PenpalChildMethods>) => Promise<T>,
+    key?: string
+  ): Promise<T> {
+    if (this.destroyed) {
+      return Promise.reject(new TaskOnNotInitializedError());
+    }
+    return this.commands.run(execute, key).catch(error => {
+      // The iframe closed its end of the connection
+      if (
+        error instanceof PenpalError &&
+        error.code === ErrorCode.ConnectionDestroyed
+      ) {
+        void this.reconnect();
+      }
+      throw error;
+    });
   }
 
   /**
-   * Request login with email or EVM wallet. Can be called when already logged in to switch accounts.
+   * Request login with email or wallet (EVM, Solana, TON, Bitcoin). Can be called when already logged in to switch accounts.
    * Duplicate login with same account will be ignored.
    *
    * @param request - Login request parameters
@@ -115,29 +401,100 @@ export class TaskOnEmbed extends EventEmitter<TaskOnEmbedEvents> {
    * ```
    */
   public async login(request: LoginParams): Promise<void> {
-    if (!this.penpal) {
-      throw new Error("Not initialized, please call .init() first");
+    if (this.destroyed) {
+      throw new TaskOnNotInitializedError();
     }
-    if (request.type === "WalletAddress") {
+    if (request.type !== "Email") {
       if (!request.provider) {
         throw new Error(
-          "The eip1193 compatible provider is required when login type is WalletAddress"
+          request.type === "WalletAddress"
+            ? "The eip1193 compatible provider is required when login type is WalletAddress"
+            : `A wallet provider is required when login type is ${request.type}`
+        );
+      }
+      const provider =
+        typeof request.provider === "string"
+          ? this.customProviders.get(request.provider)?.provider
+          : request.provider;
+      if (!provider) {
+        throw new Error(
+          `Wallet provider ${request.provider} is not registered`
+        );
+      }
+      if (!getProviderAuthTypes(provider).includes(request.type)) {
+        throw new Error(
+          `The wallet provider does not support ${request.type} login`
         );
       }
+    }
+
+    // The wallet is watched once the login succeeded, and the previous one
+    // again if the login failed and its session remains
+    const previousWallet = {
+      address: this.connectedAddress,
+      provider: this.connectedProvider,
+      type: this.connectedType,
+    };
+    this.stopAccountWatch?.();
+    this.stopAccountWatch = null;
+    if (request.type !== "Email") {
       this.connectedAddress = request.account;
       this.connectedProvider = request.provider || null;
+      this.connectedType = request.type;
     } else {
-      this.connectedAddress = "";
-      this.connectedProvider = null;
+      this.clearLoginWallet();
     }
 
-    return this.penpal.login({
-      type: request.type,
-      account: request.account,
-      signature: request.signature,
-      timestamp: request.timestamp,
-      username: request.username,
-    });
+    const previousSession = this._session;
+    if (!this.isSessionOf(request.type, request.account)) {
+      this._session = {
+        status: "authenticating",
+        user: { type: request.type, account: request.account },
+      };
+    }
+
+    try {
+      await this.call(penpal =>
+        penpal.login({
+          type: request.type,
+          account: request.account,
+          signature: request.signature,
+          timestamp: request.timestamp,
+          username: request.username,
+        })
+      );
+    } catch (error) {
+      if (this._session.status === "authenticating") {
+        this._session = previousSession;
+      }
+      if (
+        previousWallet.type &&
+        this.isSessionOf(previousWallet.type, previousWallet.address)
+      ) {
+        this.connectedAddress = previousWallet.address;
+        this.connectedProvider = previousWallet.provider;
+        this.connectedType = previousWallet.type;
+        this.watchLoginWallet();
+      } else {
+        this.clearLoginWallet();
+      }
+      throw error;
+    }
+
+    // The iframe normally reports the user (with its id) through onLoggedIn
+    if (!this.isSessionOf(request.type, request.account)) {
+      this.setAuthenticated({
+        id: "",
+        type: request.type,
+        account: request.account,
+        signature: request.signature,
+        timestamp: request.timestamp,
+      });
+    }
+    if (request.type !== "Email") {
+      this.exposeLoginProvider(request.type, request.provider);
+    }
+    this.watchLoginWallet();
   }
 
   /**
@@ -160,12 +517,12 @@ export class TaskOnEmbed extends EventEmitter<TaskOnEmbedEvents> {
    * ```
    */
   public async logout(options: LogoutOptions = {}): Promise<void> {
-    if (!this.penpal) {
-      throw new Error("Not initialized, please call .init() first");
-    }
-    return this.penpal.logout({
-      clearAuth: options.clearAuth ?? false,
-    });
+    await this.call(penpal =>
+      penpal.logout({
+        clearAuth: options.clearAuth ?? false,
+      })
+    );
+    this.setAnonymous();
   }
 
   /**
@@ -193,11 +550,7 @@ export class TaskOnEmbed extends EventEmitter<TaskOnEmbedEvents> {
     authType: AuthType,
     account: string
   ): Promise<boolean> {
-    if (!this.penpal) {
-      throw new Error("Not initialized, please call .init() first");
-    }
-
-    return this.penpal.isAuthorized(authType, account);
+    return this.call(penpal => penpal.isAuthorized(authType, account));
   }
 
   /**
@@ -212,10 +565,7 @@ export class TaskOnEmbed extends EventEmitter<TaskOnEmbedEvents> {
    * ```
    */
   public async setRoute(fullPath: string): Promise<void> {
-    if (!this.penpal) {
-      throw new Error("Not initialized, please call .init() first");
-    }
-    return this.penpal.setRoute(fullPath);
+    return this.call(penpal => penpal.setRoute(fullPath), "route");
   }
 
   /**
@@ -233,10 +583,86 @@ export class TaskOnEmbed extends EventEmitter<TaskOnEmbedEvents> {
    * ```
    */
   public async setLanguage(language: string): Promise<void> {
-    if (!this.penpal) {
-      throw new Error("Not initialized, please call .init() first");
+    this.language = language;
+    return this.call(penpal => penpal.setLanguage(language), "language");
+  }
+
+  /**
+   * Set the theme of the iframe: color tokens, font family, border radius and
+   * light/dark mode. In system mode the iframe follows the
+   * `prefers-color-scheme` of the host page
+   *
+   * @param theme - Theme, replaces the current theme
+   *
+   * @example
+   * ```typescript
+   * await embed.setTheme({
+   *   mode: 'system',
+   *   colors: { primary: '#6c5ce7' },
+   *   darkColors: { background: '#111111' },
+   *   fontFamily: 'Inter, sans-serif',
+   *   borderRadius: 12,
+   * });
+   * ```
+   */
+  public async setTheme(theme: TaskOnTheme): Promise<void> {
+    if (this.destroyed) {
+      throw new TaskOnNotInitializedError();
+    }
+    this.theme = theme;
+    this.watchSystemTheme();
+    // Resolved when sent, so a queued theme uses the current color scheme
+    return this.call(
+      penpal => penpal.setTheme(resolveTheme(theme, prefersDarkColorScheme())),
+      "theme"
+    );
+  }
+
+  /**
+   * Open the modal or drawer (modal, drawer and launcher display modes). The
+   * iframe keeps its state and connection while closed
+   *
+   * @throws {Error} In inline display mode or before init()
+   *
+   * @example
+   * ```typescript
+   * const embed = new TaskOnEmbed({ baseUrl, display: 'drawer' });
+   * await embed.init();
+   *
+   * questsButton.addEventListener('click', () => embed.open());
+   * ```
+   */
+  public open(): void {
+    this.getSurface().open();
+    if (this.config.loading === "lazy" && !this.loadPromise) {
+      this.load().catch(() => {
+        // Emitted as error event
+      });
     }
-    return this.penpal.setLanguage(language);
+  }
+
+  /**
+   * Close the modal or drawer (modal, drawer and launcher display modes)
+   *
+   * @throws {Error} In inline display mode or before init()
+   */
+  public close(): void {
+    this.getSurface().close();
+  }
+
+  /**
+   * Whether the modal or drawer is open. Always true in inline display mode
+   * once initialized
+   */
+  public get isOpen(): boolean {
+    return this.surface ? this.surface.isOpen : !!this.iframe;
+  }
+
+  /**
+   * Instance id from the configuration
+   */
+  public get instanceId(): string | undefined {
+    return this.config.id;
   }
 
   /**
@@ -246,6 +672,20 @@ export class TaskOnEmbed extends EventEmitter<TaskOnEmbedEvents> {
     return this._currentRoute;
   }
 
+  /**
+   * Get current login session state of the iframe
+   *
+   * @example
+   * ```typescript
+   * if (embed.session.status === 'authenticated') {
+   *   console.log('Logged in as', embed.session.user.account);
+   * }
+   * ```
+   */
+  public get session(): TaskOnSession {
+    return this._session;
+  }
+
   /**
    * Updates the size of the embed iframe
    *
@@ -265,7 +705,9 @@ export class TaskOnEmbed extends EventEmitter<TaskOnEmbedEvents> {
    */
   public updateSize(width?: string | number, height?: string | number): void {
     if (!this.iframe) {
-      throw new Error("TaskOn embed not initialized properly");
+      throw new TaskOnNotInitializedError(
+        "TaskOn embed not initialized properly"
+      );
     }
 
     if (width !== undefined) {
@@ -283,6 +725,111 @@ export class TaskOnEmbed extends EventEmitter<TaskOnEmbedEvents> {
     }
   }
 
+  /**
+   * Register a wallet provider that is not injected into the window, e.g. the
+   * provider of a wagmi connector or WalletConnect. The iframe can use it like
+   * any detected wallet, and `login()` accepts its key as `provider`.
+   *
+   * Any chain is accepted: EIP-1193 providers, Wallet Standard or injected
+   * Solana wallets, TON Connect instances and Unisat compatible Bitcoin
+   * providers. `login()` checks that the provider matches its type.
+   *
+   * Registering a new provider under an existing key (e.g. when the active
+   * connector changes) moves the iframe's event subscriptions to it and
+   * reports its accounts and chain to the iframe.
+   *
+   * @param key - Provider key, must be stable across connector changes
+   * @param provider - Wallet provider of any supported chain
+   * @param info - Wallet metadata shown by the iframe
+   *
+   * @example
+   * ```typescript
+   * import { getAccount, watchAccount } from "@wagmi/core";
+   *
+   * const register = async () => {
+   *   const { connector } = getAccount(wagmiConfig);
+   *   if (!connector) return embed.unregisterWalletProvider("wagmi");
+   *   embed.registerWalletProvider("wagmi", await connector.getProvider(), {
+   *     name: connector.name,
+   *     icon: connector.icon,
+   *   });
+   * };
+   * watchAccount(wagmiConfig, { onChange: register });
+   *
+   * await embed.login({ type: "WalletAddress", account, provider: "wagmi" });
+   * ```
+   */
+  public registerWalletProvider(
+    key: string,
+    provider: any,
+    info?: Partial<WalletProviderInfo>
+  ): void {
+    if (!getProviderAuthTypes(provider).length) {
+      throw new Error(
+        "A wallet provider is required: an EIP-1193 provider, Solana wallet, TON Connect instance or Bitcoin provider"
+      );
+    }
+    const previous = this.customProviders.get(key)?.provider;
+    this.customProviders.set(key, { provider, info });
+    this.addCustomProvider(key);
+    if (previous !== provider) {
+      void this.switchWalletProvider(key, previous, provider);
+      if (key === this.connectedProvider && this.hasWalletSession()) {
+        void this.switchLoginWallet(provider);
+      }
+    }
+    this.scheduleProviderNotify();
+  }
+
+  /**
+   * Remove a wallet provider registered with registerWalletProvider, e.g. when
+   * the user disconnected. The iframe's listeners receive an empty
+   * `accountsChanged` event.
+   *
+   * @param key - Provider key
+   */
+  public unregisterWalletProvider(key: string): void {
+    const registered = this.customProviders.get(key);
+    if (!registered) {
+      return;
+    }
+    this.emitWalletEvent(key, "accountsChanged", []);
+    // Subscriptions are kept and move to the provider registered next
+    this.moveWalletListeners(key, registered.provider, null);
+    if (key === this.connectedProvider && this.hasWalletSession()) {
+      this.handleWalletAccountUpdate({ reason: "disconnect", account: null });
+    }
+    this.customProviders.delete(key);
+    delete this.availableProviders[key];
+    delete this.providerInfo[key];
+    this.scheduleProviderNotify();
+  }
+
+  /**
+   * Forward a wallet event to the iframe's listeners of a provider. Use it
+   * for providers that don't emit EIP-1193 events themselves.
+   *
+   * @param key - Provider key
+   * @param eventName - Event name (e.g. 'accountsChanged', 'chainChanged')
+   * @param args - Event arguments
+   *
+   * @example
+   * ```typescript
+   * embed.emitWalletEvent("wagmi", "chainChanged", "0x2105");
+   * ```
+   */
+  public emitWalletEvent(key: string, eventName: string, ...args: any[]): void {
+    const handlerMap = this.eventListeners.get(`${key}:handlers`);
+    if (!handlerMap) {
+      return;
+    }
+    for (const [id, handler] of handlerMap) {
+      if (id.slice(0, id.indexOf(":")) === eventName) {
+        handler(...args);
+      }
+    }
+  }
+
   /**
    * Destroys the embed instance and cleans up all resources
    *
@@ -292,182 +839,768 @@ export class TaskOnEmbed extends EventEmitter<TaskOnEmbedEvents> {
    * ```
    */
   public destroy(): void {
+    this.stopLazyLoad?.();
+    this.stopLazyLoad = null;
+    this.started = false;
+    this.destroyed = true;
+    this.loadPromise = null;
+    this.commands.clear(new TaskOnNotInitializedError());
+    this.readyDeferred.reject(new TaskOnNotInitializedError());
+    this.readyDeferred = createDeferred();
+
     if (this.iframe && this.container) {
       this.container.removeChild(this.iframe);
     }
+    this.fallbackElement?.remove();
+    this.fallbackElement = null;
     this.iframe = null;
     this.container = null;
+    this.surface?.destroy();
+    this.surface = null;
     this.penpalConnection?.destroy();
     this.penpalConnection = null;
     this.penpal = null;
+    this.reconnecting = false;
+    this.stopReloadWatch?.();
+    this.stopReloadWatch = null;
+    this.language = this.config.language;
     this.initialized = false;
     this._currentRoute = "";
+    this._session = { status: "anonymous" };
     this.availableProviders = {};
-    this.eventListeners.clear();
+    this.providerInfo = {};
+    this.customProviders.clear();
+    this.removeWalletListeners();
+    this.clearLoginWallet();
 
-    // Clear wallet watcher
-    if (this.walletWatcher) {
-      clearInterval(this.walletWatcher);
-      this.walletWatcher = null;
+    // Stop wallet discovery
+    this.stopWalletDiscovery?.();
+    this.stopWalletDiscovery = null;
+    if (this.providerNotifyTimer) {
+      clearTimeout(this.providerNotifyTimer);
+      this.providerNotifyTimer = null;
+    }
+    if (this.resizeTimer) {
+      clearTimeout(this.resizeTimer);
+      this.resizeTimer = null;
     }
+    this.stopColorSchemeWatch?.();
+    this.stopColorSchemeWatch = null;
   }
 
   /**
-   * Initialize wallet providers by detecting available wallets and creating proxies
+   * Check whether the session is authenticated as the account. A login still
+   * in progress ("authenticating") does not count. Emails are compared case
+   * insensitively, wallet addresses like isSameWalletAccount
    */
-  private async initWalletProviders(): Promise<void> {
-    // Initial detection of wallet providers
-    this.availableProviders = this.detectWalletProviders();
+  private isSessionOf(type: AuthType, account: string): boolean {
+    if (
+      this._session.status !== "authenticated" ||
+      this._session.user.type !== type
+    ) {
+      return false;
+    }
+    const sessionAccount = this._session.user.account;
+    return type === "Email"
+      ? sessionAccount.toLowerCase() === account.toLowerCase()
+      : isSameWalletAccount(type, sessionAccount, account);
+  }
 
-    // Send the provider information to iframe for setup
-    await this.notifyIframeOfProviders();
+  /**
+   * Mark the user as logged in, emitting loggedIn when the account changed
+   */
+  private setAuthenticated(user: AuthUser): void {
+    const isNewLogin = !this.isSessionOf(user.type, user.account);
+    this._session = { status: "authenticated", user: { ...user } };
+    if (isNewLogin) {
+      this.emit("loggedIn", this._session.user);
+    }
+  }
 
-    // Start watching for dynamically injected providers
-    this.startWalletProviderWatcher();
+  /**
+   * Mark the session as anonymous, emitting loggedOut when a user was logged in
+   */
+  private setAnonymous(): void {
+    const wasLoggedIn = this._session.status === "authenticated";
+    this._session = { status: "anonymous" };
+    this.clearLoginWallet();
+    if (wasLoggedIn) {
+      this.emit("loggedOut");
+    }
   }
 
   /**
-   * Start watching for dynamically injected wallet providers
+   * Log in with the configured auth strategy. Concurrent requests share the
+   * same attempt.
    */
-  private startWalletProviderWatcher(): void {
-    // Check for new providers every 3 seconds
-    this.walletWatcher = setInterval(async () => {
-      const currentProviders = this.detectWalletProviders();
-      const currentProviderKeys = Object.keys(currentProviders);
-      const existingProviderKeys = Object.keys(this.availableProviders);
+  private autoLogin(): Promise<void> {
+    if (!this.pendingAutoLogin) {
+      this.pendingAutoLogin = this.runAuthStrategy().finally(() => {
+        this.pendingAutoLogin = null;
+      });
+    }
+    return this.pendingAutoLogin;
+  }
 
-      // Check for new providers
-      const newProviders = currentProviderKeys.filter(
-        key => !existingProviderKeys.includes(key)
-      );
+  private async runAuthStrategy(): Promise<void> {
+    const strategy = this.config.auth!;
+    try {
+      const user = await strategy.getCurrentUser();
+      if (!user) {
+        throw new Error("No user is logged in on the host site");
+      }
 
-      if (newProviders.length > 0) {
-        console.log("New wallet providers detected:", newProviders);
+      const loginWithSignature = async () => {
+        const { signature, timestamp } = await strategy.getSignature(user);
+        await this.login({ ...user, signature, timestamp });
+      };
 
-        // Add new providers to our collection
-        for (const key of newProviders) {
-          if (currentProviders[key]) {
-            this.availableProviders[key] = currentProviders[key];
-          }
+      if (await this.isAuthorized(user.type, user.account)) {
+        try {
+          await this.login(user);
+          this.emit("loginSucceeded", user);
+          return;
+        } catch {
+          // Authorization cache is no longer valid, fall back to a signature
         }
-
-        // Notify iframe about all providers (including new ones)
-        await this.notifyIframeOfProviders();
       }
-    }, 3000) as unknown as number;
+
+      await retrySignatureLogin(loginWithSignature);
+      this.emit("loginSucceeded", user);
+    } catch (error) {
+      this.emit(
+        "loginFailed",
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
   }
 
   /**
-   * Detect available wallet providers in the current window
+   * Initialize wallet providers by detecting available wallets and creating proxies
    */
-  private detectWalletProviders(): Record<string, any> {
-    const providers: Record<string, any> = {};
-
-    // Check for EVM wallet providers only
-    if ((window as any).ethereum) {
-      providers.ethereum = (window as any).ethereum;
-    }
-
-    if ((window as any).okxwallet) {
-      providers.okxwallet = (window as any).okxwallet;
+  private async initWalletProviders(): Promise<void> {
+    this.availableProviders = {};
+    this.providerInfo = {};
+    for (const key of this.customProviders.keys()) {
+      this.addCustomProvider(key);
     }
 
-    if ((window as any).onto) {
-      providers.onto = (window as any).onto;
-    }
+    // Wallets announce themselves through EIP-6963 (EVM) and Wallet Standard
+    // (Solana), both now and when they are injected later. The discovery is
+    // shared with the other embed instances of the page
+    this.stopWalletDiscovery?.();
+    this.stopWalletDiscovery = subscribeWalletDiscovery({
+      onEip6963Provider: detail => this.addEip6963Provider(detail),
+      onStandardWallet: (key, wallet, info) => {
+        if (
+          this.customProviders.has(key) ||
+          this.availableProviders[key] === wallet
+        ) {
+          return;
+        }
+        this.availableProviders[key] = wallet;
+        this.providerInfo[key] = info;
+        this.scheduleProviderNotify();
+      },
+      // Legacy globals as fallback for wallets without EIP-6963 support
+      onLegacyProviders: () => {
+        if (this.addLegacyProviders()) {
+          this.scheduleProviderNotify();
+        }
+      },
+    });
+    this.addLegacyProviders();
 
-    if ((window as any).bitkeep?.ethereum) {
-      providers["bitkeep.ethereum"] = (window as any).bitkeep.ethereum;
+    // Send the provider information to iframe for setup, covering the
+    // providers announced synchronously above
+    if (this.providerNotifyTimer) {
+      clearTimeout(this.providerNotifyTimer);
+      this.providerNotifyTimer = null;
     }
-
-    return providers;
+    await this.notifyIframeOfProviders();
   }
 
   /**
-   * Notify iframe about available wallet providers via postMessage
+   * Add a provider announced through EIP-6963
    */
-  private async notifyIframeOfProviders(): Promise<void> {
-    if (!this.iframe?.contentWindow || !this.penpal) return;
-
-    try {
-      // Wait a bit for iframe to be fully loaded
-      await new Promise(resolve => setTimeout(resolve, 100));
-
-      // Send provider keys to iframe so it can set up proxy objects
-      const providerKeys = Object.keys(this.availableProviders);
-      console.log("Notifying iframe of available providers:", providerKeys);
+  private addEip6963Provider(detail: EIP6963ProviderDetail): void {
+    const key = getEip6963ProviderKey(detail.info);
+    if (
+      this.customProviders.has(key) ||
+      this.availableProviders[key] === detail.provider
+    ) {
+      return;
+    }
+    this.availableProviders[key] = detail.provider;
+    this.providerInfo[key] = { ...detail.info };
 
-      // The iframe will receive this and set up window objects accordingly
-      // This avoids cross-origin issues with direct window manipulation
-      if (this.penpal.setupWalletProviders) {
-        await this.penpal.setupWalletProviders(providerKeys);
+    // Legacy globals pointing to the same wallet share its metadata
+    for (const [legacyKey, provider] of Object.entries(
+      this.availableProviders
+    )) {
+      if (legacyKey !== key && provider === detail.provider) {
+        this.providerInfo[legacyKey] = { ...detail.info };
       }
-    } catch (error) {
-      console.warn("Failed to notify iframe of providers:", error);
     }
+    this.addLegacyProviders();
+    this.scheduleProviderNotify();
   }
 
   /**
-   * Renders the TaskOn iframe into the specified container
-   * Called automatically during construction
+   * Add wallet providers injected as window globals
+   * @returns true if a provider was added or replaced
    */
-  private renderIframe(taskInviteCode?: string | null): void {
-    const container = this.resolveContainer();
-    if (!container) {
-      throw new Error("Container element not found");
+  private addLegacyProviders(): boolean {
+    let changed = false;
+    for (const [key, provider] of Object.entries(
+      detectLegacyWalletProviders()
+    )) {
+      if (
+        this.customProviders.has(key) ||
+        this.availableProviders[key] === provider
+      ) {
+        continue;
+      }
+      this.availableProviders[key] = provider;
+      delete this.providerInfo[key];
+      const announced = Object.keys(this.availableProviders).find(
+        other =>
+          other !== key &&
+          this.providerInfo[other] &&
+          this.availableProviders[other] === provider
+      );
+      if (announced) {
+        this.providerInfo[key] = { ...this.providerInfo[announced] };
+      }
+      changed = true;
     }
-    this.container = container;
-    this.iframe = this.createIframe(taskInviteCode);
-    container.appendChild(this.iframe);
+    return changed;
   }
 
-  private resolveContainer(): HTMLElement | null {
-    if (typeof this.config.containerElement === "string") {
-      return document.querySelector(this.config.containerElement);
+  /**
+   * Watch account changes of the login wallet
+   */
+  private watchLoginWallet(): void {
+    this.stopAccountWatch?.();
+    this.stopAccountWatch = null;
+
+    const provider =
+      typeof this.connectedProvider === "string"
+        ? this.getOriginalProvider(this.connectedProvider)
+        : this.connectedProvider;
+    if (!this.connectedType || !provider) {
+      return;
     }
-    return this.config.containerElement;
+    this.stopAccountWatch = watchWalletAccount(
+      this.connectedType,
+      provider,
+      update => this.handleWalletAccountUpdate(update)
+    );
   }
 
-  private createIframe(taskInviteCode?: string | null): HTMLIFrameElement {
-    const iframe = document.createElement("iframe");
+  /**
+   * Whether the session is logged in with the login wallet, as opposed to a
+   * login still in progress
+   */
+  private hasWalletSession(): boolean {
+    return (
+      !!this.connectedType &&
+      this.isSessionOf(this.connectedType, this.connectedAddress)
+    );
+  }
+
+  /**
+   * Stop watching the login wallet and forget it
+   */
+  private clearLoginWallet(): void {
+    this.stopAccountWatch?.();
+    this.stopAccountWatch = null;
+    this.connectedAddress = "";
+    this.connectedProvider = null;
+    this.connectedType = null;
+  }
+
+  /**
+   * Watch the new provider registered under the login provider key and
+   * check that it is still connected to the logged in account
+   */
+  private async switchLoginWallet(provider: any): Promise<void> {
+    this.watchLoginWallet();
+    if (this.connectedType !== "WalletAddress") {
+      return;
+    }
+    const accounts: string[] = await provider
+      .request({ method: "eth_accounts" })
+      .catch(() => []);
+    this.handleWalletAccountUpdate(
+      accounts[0]
+        ? { reason: "accountsChanged", account: accounts[0] }
+        : { reason: "disconnect", account: null }
+    );
+  }
+
+  /**
+   * Apply the walletSync policy to an account or chain change of the login wallet
+   */
+  private handleWalletAccountUpdate(update: WalletAccountUpdate): void {
+    const type = this.connectedType;
+    const previousAccount = this.connectedAddress;
+    if (!type || !previousAccount) {
+      return;
+    }
+
+    if (update.reason === "chainChanged") {
+      this.emit("walletAccountChanged", {
+        ...update,
+        type,
+        previousAccount,
+        account: previousAccount,
+      });
+      return;
+    }
+    if (
+      update.account &&
+      isSameWalletAccount(type, update.account, previousAccount)
+    ) {
+      return;
+    }
+
+    const change: WalletAccountChange = {
+      reason: update.reason,
+      type,
+      previousAccount,
+      account: update.account,
+    };
+    this.emit("walletAccountChanged", change);
+
+    const policy = this.config.walletSync?.onAccountChange ?? "ignore";
+    if (policy === "ignore") {
+      return;
+    }
+    if (policy === "relogin" && change.account) {
+      void this.reloginWallet(change);
+      return;
+    }
+    void this.logoutStaleWallet();
+  }
+
+  /**
+   * Log in the new account of the login wallet, logging out if that fails
+   */
+  private async reloginWallet(change: WalletAccountChange): Promise<void> {
+    const relogin = this.config.walletSync?.relogin;
+    try {
+      if (relogin) {
+        const params = await relogin(change);
+        if (params) {
+          await this.login(params);
+        }
+      } else if (this.config.auth) {
+        await this.autoLogin();
+      }
+    } catch (error) {
+      console.warn("Re-login after wallet account change failed:", error);
+    }
+
+    const relogged =
+      this._session.status === "authenticated" &&
+      !this.isSessionOf(change.type, change.previousAccount);
+    if (!relogged) {
+      await this.logoutStaleWallet();
+    }
+  }
+
+  /**
+   * Log out the session of a wallet that is no longer connected to its account
+   */
+  private async logoutStaleWallet(): Promise<void> {
+    if (this._session.status === "anonymous") {
+      this.clearLoginWallet();
+      return;
+    }
+    try {
+      await this.logout();
+    } catch (error) {
+      console.warn("Logout after wallet account change failed:", error);
+    }
+  }
+
+  /**
+   * Make a provider passed to login() reachable by the iframe, e.g. a TON
+   * Connect instance for `sendTransaction`, unless it already is. It is
+   * registered under the key of its type and replaced by the next login
+   */
+  private exposeLoginProvider(type: WalletAuthType, provider: any): void {
+    if (
+      typeof provider === "string" ||
+      Object.values(this.availableProviders).includes(provider)
+    ) {
+      return;
+    }
+    this.registerWalletProvider(LOGIN_PROVIDER_KEYS[type], provider);
+  }
+
+  /**
+   * Add a provider registered with registerWalletProvider
+   */
+  private addCustomProvider(key: string): void {
+    const { provider, info } = this.customProviders.get(key)!;
+    this.availableProviders[key] = provider;
+    if (info) {
+      this.providerInfo[key] = {
+        uuid: info.uuid ?? key,
+        name: info.name ?? key,
+        icon: info.icon ?? "",
+        rdns: info.rdns ?? "",
+      };
+    } else {
+      delete this.providerInfo[key];
+    }
+  }
+
+  /**
+   * Move the iframe's subscriptions to the new provider of a key and report
+   * its accounts and chain
+   */
+  private async switchWalletProvider(
+    key: string,
+    previous: any,
+    provider: any
+  ): Promise<void> {
+    this.moveWalletListeners(key, previous, provider);
+    if (
+      !this.eventListeners.get(`${key}:handlers`)?.size ||
+      typeof provider.request !== "function"
+    ) {
+      return;
+    }
+
+    const [accounts, chainId] = await Promise.all([
+      provider.request({ method: "eth_accounts" }).catch(() => []),
+      provider.request({ method: "eth_chainId" }).catch(() => null),
+    ]);
+    // Another provider may have been registered in the meantime
+    if (this.customProviders.get(key)?.provider !== provider) {
+      return;
+    }
+    this.emitWalletEvent(key, "accountsChanged", accounts);
+    if (chainId) {
+      this.emitWalletEvent(key, "chainChanged", chainId);
+    }
+  }
+
+  /**
+   * Move the iframe's event handlers of a key from one provider to another
+   */
+  private moveWalletListeners(key: string, from: any, to: any): void {
+    const handlerMap = this.eventListeners.get(`${key}:handlers`);
+    if (!handlerMap) {
+      return;
+    }
+    for (const [id, handler] of handlerMap) {
+      const eventName = id.slice(0, id.indexOf(":"));
+      from?.removeListener?.(eventName, handler);
+      to?.on?.(eventName, handler);
+    }
+  }
+
+  /**
+   * Notify the iframe once per burst of provider changes
+   */
+  private scheduleProviderNotify(): void {
+    if (this.providerNotifyTimer) {
+      return;
+    }
+    this.providerNotifyTimer = setTimeout(() => {
+      this.providerNotifyTimer = null;
+      void this.notifyIframeOfProviders();
+    }, 50) as unknown as number;
+  }
+
+  /**
+   * Forward a wallet request from the iframe to a provider, applying the
+   * wallet policy and emitting `walletRequest` for auditing
+   *
+   * @param request - Request from the iframe
+   * @param send - Send the (possibly modified) request to the wallet
+   */
+  private async proxyWalletRequest(
+    request: WalletRequest,
+    send: (request: WalletRequest) => Promise<any>
+  ): Promise<any> {
+    const policy = this.config.walletPolicy;
+    const timestamp = Date.now();
+    const audit = (
+      status: WalletRequestRecord["status"],
+      outcome: Pick<WalletRequestRecord, "result" | "error">
+    ) => {
+      this.emit("walletRequest", { request, status, timestamp, ...outcome });
+    };
+    const deny = () => {
+      const error = createProviderRpcError(
+        UNAUTHORIZED,
+        `Wallet method ${request.method} is not allowed`
+      );
+      audit("denied", { error });
+      return error;
+    };
+    const isAllowed = () =>
+      request.source !== "walletProvider" ||
+      isWalletMethodAllowed(
+        policy?.methods,
+        this.getProviderKeys(request.providerKey ?? ""),
+        request.method
+      );
+
+    if (!isAllowed()) {
+      throw deny();
+    }
+
+    if (policy?.onWalletRequest) {
+      let decision: Awaited<
+        ReturnType<NonNullable<typeof policy.onWalletRequest>>
+      >;
+      try {
+        decision = await policy.onWalletRequest({
+          ...request,
+          params: request.params && [...request.params],
+        });
+      } catch (error) {
+        audit("rejected", { error });
+        throw error;
+      }
+
+      if (decision === false) {
+        const error = createProviderRpcError(
+          USER_REJECTED_REQUEST,
+          "User rejected the request"
+        );
+        audit("rejected", { error });
+        throw error;
+      }
+      if (decision && typeof decision === "object") {
+        try {
+          request = applyWalletRequestOverride(request, decision);
+        } catch (error) {
+          audit("denied", { error });
+          throw error;
+        }
+        // A modified request must still satisfy the method rules
+        if (!isAllowed()) {
+          throw deny();
+        }
+      }
+    }
+
+    try {
+      const result = await send(request);
+      audit("fulfilled", { result });
+      return result;
+    } catch (error) {
+      audit("failed", { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Notify iframe about available wallet providers via postMessage
+   */
+  private async notifyIframeOfProviders(): Promise<void> {
+    if (!this.iframe?.contentWindow || !this.penpal) return;
+
+    try {
+      // Wait a bit for iframe to be fully loaded
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      // Send provider keys to iframe so it can set up proxy objects
+      const providerKeys = Object.keys(this.availableProviders);
+      console.log("Notifying iframe of available providers:", providerKeys);
+
+      // The iframe will receive this and set up window objects accordingly
+      // This avoids cross-origin issues with direct window manipulation
+      if (this.penpal.setupWalletProviders) {
+        await this.penpal.setupWalletProviders(providerKeys, {
+          ...this.providerInfo,
+        });
+      }
+    } catch (error) {
+      console.warn("Failed to notify iframe of providers:", error);
+    }
+  }
+
+  /**
+   * Renders the TaskOn iframe into the specified container
+   * Called automatically during construction
+   */
+  private renderIframe(taskInviteCode?: string | null): void {
+    // A failed init() left its error fallback in the container
+    this.removeFallback();
+
+    const display = this.getDisplayOptions();
+    if (display.mode === "inline") {
+      const container = this.resolveContainer();
+      if (!container) {
+        throw new Error("Container element not found");
+      }
+      this.container = container;
+      this.iframe = this.createIframe(taskInviteCode);
+    } else {
+      this.container = this.createSurface().container;
+      this.iframe = this.createIframe(taskInviteCode);
+      // The dialog has the configured size, the iframe fills it
+      this.iframe.style.width = "100%";
+      this.iframe.style.height = "100%";
+    }
+
+    const iframe = this.iframe;
+    this.iframeLoaded = false;
+    iframe.addEventListener("load", () => this.handleIframeLoad(iframe));
+
+    const loading = this.config.fallback?.loading;
+    if (loading) {
+      this.showFallback(loading());
+      this.iframe.style.display = "none";
+    }
+    this.container.appendChild(this.iframe);
+  }
+
+  /**
+   * Create the dialog of the modal, drawer and launcher display modes. It is
+   * created before the iframe with lazy or manual loading, and kept after a
+   * failed init() so an open dialog stays open on retry
+   */
+  private createSurface(): DisplaySurface {
+    if (!this.surface) {
+      const { width, height } = this.config;
+      this.surface = createDisplaySurface({
+        ...this.getDisplayOptions(),
+        width: width !== undefined ? this.resolveSize(width, "") : undefined,
+        height: height !== undefined ? this.resolveSize(height, "") : undefined,
+        onOpen: () => this.emit("opened"),
+        onClose: () => this.emit("closed"),
+      });
+    }
+    return this.surface;
+  }
+
+  /**
+   * Show host content in place of the iframe
+   */
+  private showFallback(content: HTMLElement | string): void {
+    this.removeFallback();
+    if (!this.container) return;
+
+    const element = document.createElement("div");
+    element.className = "taskon-embed-fallback";
+    Object.assign(element.style, { width: "100%", height: "100%" });
+    if (typeof content === "string") {
+      element.textContent = content;
+    } else {
+      element.appendChild(content);
+    }
+    this.container.appendChild(element);
+    this.fallbackElement = element;
+  }
+
+  /**
+   * Remove the fallback content and show the iframe
+   */
+  private removeFallback(): void {
+    this.fallbackElement?.remove();
+    this.fallbackElement = null;
+    if (this.iframe) {
+      this.iframe.style.display = "";
+    }
+  }
+
+  /**
+   * Clean up after a failed init(): remove the iframe, emit the error and
+   * show the error fallback. The container (and dialog) is kept for a retry
+   */
+  private handleInitError(error: unknown): void {
+    this.penpalConnection?.destroy();
+    this.penpalConnection = null;
+    this.penpal = null;
+    this.stopReloadWatch?.();
+    this.stopReloadWatch = null;
+    this.iframe?.remove();
+    this.iframe = null;
+    this.removeFallback();
+
+    if (!(error instanceof TaskOnError)) return;
+    this.emit("error", error);
+    const fallback = this.config.fallback?.error;
+    if (fallback) {
+      this.showFallback(
+        fallback(error, () => {
+          this.load().catch(() => {
+            // Emitted as error event and shown as fallback again
+          });
+        })
+      );
+    }
+  }
+
+  private resolveContainer(): HTMLElement | null {
+    if (typeof this.config.containerElement === "string") {
+      return document.querySelector(this.config.containerElement);
+    }
+    return this.config.containerElement ?? null;
+  }
+
+  private getDisplayOptions(): TaskOnDisplayOptions {
+    const { display = "inline" } = this.config;
+    return typeof display === "string" ? { mode: display } : display;
+  }
+
+  private getSurface(): DisplaySurface {
+    if (this.surface) {
+      return this.surface;
+    }
+    if (this.getDisplayOptions().mode === "inline") {
+      throw new Error("open() and close() are not available in inline mode");
+    }
+    throw new TaskOnNotInitializedError();
+  }
+
+  private createIframe(taskInviteCode?: string | null): HTMLIFrameElement {
+    const iframe = document.createElement("iframe");
 
-    // Check if there's a saved route to restore (after OAuth return)
-    const savedRoute = localStorage.getItem("taskon_saved_route");
+    // Route precedence: the route saved before an OAuth redirect (one-shot)
+    // wins over initialRoute. The invite code is passed along with any route
+    const savedRouteKey = namespaced("taskon_saved_route", this.config.id);
+    const savedRoute = localStorage.getItem(savedRouteKey);
     if (savedRoute) {
+      // Clean up saved route
+      localStorage.removeItem(savedRouteKey);
+    }
+    const route = savedRoute || this.config.initialRoute;
+
+    let url: URL;
+    if (route) {
       // Handle potential duplicate slashes
       const baseUrl = this.config.baseUrl.endsWith("/")
         ? this.config.baseUrl.slice(0, -1)
         : this.config.baseUrl;
-      const routePath = savedRoute.startsWith("/")
-        ? savedRoute
-        : "/" + savedRoute;
-      const fullUrl = baseUrl + routePath;
-
-      const urlWithRoute = new URL(fullUrl);
-      urlWithRoute.searchParams.set("origin", window.location.origin);
-      if (this.config.language) {
-        urlWithRoute.searchParams.set("lang", this.config.language);
-      }
-      // If task_invite_code exists, pass it as invite_code to iframe
-      if (taskInviteCode) {
-        urlWithRoute.searchParams.set("invite_code", taskInviteCode);
-      }
-      iframe.src = urlWithRoute.toString();
-
-      // Clean up saved route
-      localStorage.removeItem("taskon_saved_route");
+      url = new URL(baseUrl + normalizeRoute(route));
     } else {
-      const url = new URL(this.config.baseUrl);
-      url.searchParams.set("origin", window.location.origin);
-      if (this.config.language) {
-        url.searchParams.set("lang", this.config.language);
-      }
-      // If task_invite_code exists, pass it as invite_code to iframe
-      if (taskInviteCode) {
-        url.searchParams.set("invite_code", taskInviteCode);
-      }
-      iframe.src = url.toString();
+      url = new URL(this.config.baseUrl);
+    }
+    url.searchParams.set("origin", window.location.origin);
+    if (this.config.language) {
+      url.searchParams.set("lang", this.config.language);
+    }
+    if (this.theme) {
+      url.searchParams.set(
+        "theme",
+        resolveTheme(this.theme, prefersDarkColorScheme()).mode
+      );
     }
+    // If task_invite_code exists, pass it as invite_code to iframe
+    if (taskInviteCode) {
+      url.searchParams.set("invite_code", taskInviteCode);
+    }
+    iframe.src = url.toString();
 
     iframe.style.width = this.resolveSize(this.config.width, "100%");
     iframe.style.height = this.resolveSize(this.config.height, "100%");
@@ -499,63 +1632,154 @@ export class TaskOnEmbed extends EventEmitter<TaskOnEmbedEvents> {
     return size || defaultSize;
   }
 
-  private async initPenpal(): Promise<void> {
-    if (!this.iframe?.contentWindow) {
-      throw new Error("Iframe not found");
+  /**
+   * Send the configured theme once connected. The color mode is already in
+   * the iframe URL, so the first paint uses it
+   */
+  private async initTheme(): Promise<void> {
+    if (!this.theme) return;
+    this.watchSystemTheme();
+    try {
+      await this.penpal?.setTheme(
+        resolveTheme(this.theme, prefersDarkColorScheme())
+      );
+    } catch (error) {
+      console.warn("Failed to set theme:", error);
     }
-    const messenger = new WindowMessenger({
-      remoteWindow: this.iframe.contentWindow,
-      allowedOrigins: [this.config.baseUrl],
+  }
+
+  /**
+   * Follow the host color scheme while the theme is in system mode
+   */
+  private watchSystemTheme(): void {
+    this.stopColorSchemeWatch?.();
+    this.stopColorSchemeWatch = null;
+    if (this.theme?.mode !== "system") return;
+
+    this.stopColorSchemeWatch = watchColorScheme(prefersDark => {
+      if (!this.theme || !this.penpal) return;
+      this.penpal
+        .setTheme(resolveTheme(this.theme, prefersDark))
+        .catch(error => {
+          console.warn("Failed to update theme:", error);
+        });
     });
+  }
 
+  /**
+   * Auto height options, or null when the mode is off. Only inline embeds
+   * follow their content height, dialogs have a fixed size
+   */
+  private getAutoHeightOptions(): TaskOnAutoHeightOptions | null {
+    const { autoHeight } = this.config;
+    if (!autoHeight || this.getDisplayOptions().mode !== "inline") return null;
+    return autoHeight === true ? {} : autoHeight;
+  }
+
+  /**
+   * Ask the iframe to report its content height. Iframes that don't support
+   * it keep the configured height
+   */
+  private async initAutoHeight(): Promise<void> {
+    if (!this.getAutoHeightOptions()) return;
+    try {
+      await this.penpal?.setAutoHeight(true);
+    } catch (error) {
+      console.warn("Failed to enable auto height:", error);
+    }
+  }
+
+  /**
+   * Apply a content height reported by the iframe once it settled
+   */
+  private handleContentResize(contentHeight: number): void {
+    const options = this.getAutoHeightOptions();
+    if (!options || !Number.isFinite(contentHeight) || contentHeight < 0) {
+      return;
+    }
+    if (this.resizeTimer) {
+      clearTimeout(this.resizeTimer);
+    }
+    this.resizeTimer = window.setTimeout(() => {
+      this.resizeTimer = null;
+      if (!this.iframe) return;
+
+      let height = Math.max(contentHeight, options.minHeight ?? 0);
+      if (options.maxHeight !== undefined) {
+        height = Math.min(height, options.maxHeight);
+      }
+      height = Math.ceil(height);
+      if (this.iframe.style.height === `${height}px`) return;
+
+      this.iframe.style.height = `${height}px`;
+      this.emit("resize", { height, contentHeight });
+    }, options.debounce ?? 100);
+  }
+
+  private async initPenpal(): Promise<void> {
     const methods: PenpalParentMethods = {
       requestLogin: async () => {
+        if (this.config.auth) {
+          void this.autoLogin();
+          return;
+        }
         this.emit("loginRequired");
       },
       onTaskCompleted: (data: TaskCompletedData) => {
         this.emit("taskCompleted", data);
       },
       requestOauth: (snsType, state) => {
-        const pathMap: Record<SnsType, string> = {
-          twitter: "/twitter",
-          discord: "/discord",
-          telegram: "/telegram",
-          reddit: "/reddit",
-        };
-        if (!pathMap[snsType]) {
-          throw new Error(`Invalid sns type: ${snsType}`);
+        const flowId = createOAuthFlowId();
+        const mode =
+          this.config.oauthMode === "popup" && !this.oauthResultUnsupported
+            ? "popup"
+            : "redirect";
+        const url = this.buildOauthUrl(snsType, state, mode, flowId);
+        if (!url) {
+          this.penpal
+            ?.onOauthResult({ snsType, state, status: "cancelled" })
+            .catch(error => {
+              console.warn("Failed to pass OAuth result to iframe:", error);
+            });
+          return;
         }
 
-        // Save current route state for OAuth return restoration
-        if (this._currentRoute) {
-          localStorage.setItem("taskon_saved_route", this._currentRoute);
+        if (mode === "popup") {
+          void this.openOauthPopup(snsType, state, url, flowId);
+          return;
         }
-
-        // open new tab of the oauth center
-        const oauthToolUrl = this.config.isDev
-          ? "https://stage.generalauthservice.com"
-          : "https://generalauthservice.com";
-        const url = new URL(`${oauthToolUrl}${pathMap[snsType]}`);
-        url.searchParams.set("state", state);
-        url.searchParams.set("from", window.location.href);
-        // Navigate to OAuth page
-        window.location.href = url.toString();
+        this.redirectToOauth(url);
       },
       onRouteChange: (fullPath: string) => {
         this._currentRoute = fullPath;
+        if (this.reconnecting) {
+          // Reported once the route is restored
+          return;
+        }
         this.emit("routeChanged", fullPath);
       },
       requestSignVerify: async hexMessage => {
-        if (!this.connectedProvider) {
+        // A registered provider key resolves to the currently registered provider
+        const provider =
+          typeof this.connectedProvider === "string"
+            ? this.getOriginalProvider(this.connectedProvider)
+            : this.connectedProvider;
+        if (!provider) {
           throw new Error("Provider not found");
         }
-        if (!this.connectedAddress) {
+        if (!this.connectedAddress || !this.connectedType) {
           throw new Error("No connected address");
         }
-        return this.connectedProvider.request({
-          method: "personal_sign",
-          params: [hexMessage, this.connectedAddress],
-        });
+        // Each chain signs the login message with its own wallet method
+        const type = this.connectedType;
+        return this.proxyWalletRequest(
+          {
+            source: "loginSignature",
+            method: LOGIN_SIGN_METHODS[type],
+            params: getLoginSignParams(type, this.connectedAddress, hexMessage),
+          },
+          request => signLoginMessage(type, provider, request.params ?? [])
+        );
       },
       requestWalletProvider: async (
         providerKey: string,
@@ -568,7 +1792,11 @@ export class TaskOnEmbed extends EventEmitter<TaskOnEmbedEvents> {
         }
 
         // Handle the request using the original provider
-        return originalProvider.request({ method, params });
+        return this.proxyWalletRequest(
+          { source: "walletProvider", providerKey, method, params },
+          request =>
+            sendWalletRequest(originalProvider, request.method, request.params)
+        );
       },
       subscribeWalletEvents: async (
         providerKey: string,
@@ -613,60 +1841,451 @@ export class TaskOnEmbed extends EventEmitter<TaskOnEmbedEvents> {
         const originalProvider = this.getOriginalProvider(providerKey);
         const handlerMap = this.eventListeners.get(`${providerKey}:handlers`);
 
-        if (originalProvider && originalProvider.removeListener && handlerMap) {
-          const handler = handlerMap.get(`${eventName}:${listenerId}`);
-          if (handler) {
-            originalProvider.removeListener(eventName, handler);
-            handlerMap.delete(`${eventName}:${listenerId}`);
-          }
+        const handler = handlerMap?.get(`${eventName}:${listenerId}`);
+        if (handler) {
+          originalProvider?.removeListener?.(eventName, handler);
+          handlerMap!.delete(`${eventName}:${listenerId}`);
         }
       },
       getParentUrl: async () => {
         return this.getParentFullUrl();
       },
+      onLoggedIn: (user: AuthUser) => {
+        this.setAuthenticated(user);
+      },
+      onLoggedOut: () => {
+        this.setAnonymous();
+      },
+      onSessionExpired: () => {
+        if (this._session.status !== "authenticated") return;
+        const user = this._session.user;
+        this._session = { status: "anonymous" };
+        this.clearLoginWallet();
+        this.emit("sessionExpired", user);
+      },
+      onContentResize: (height: number) => {
+        this.handleContentResize(height);
+      },
+      requestClose: () => {
+        this.surface?.close();
+      },
     };
 
+    const {
+      timeout = 10000,
+      retries = 2,
+      retryDelay = 1000,
+    } = this.config.handshake ?? {};
+    for (let attempt = 1; ; attempt++) {
+      try {
+        this.penpal = await this.connectIframe(methods, timeout, attempt);
+        return;
+      } catch (error) {
+        this.penpalConnection?.destroy();
+        this.penpalConnection = null;
+        if (attempt > retries || !(error instanceof TaskOnError)) {
+          throw error;
+        }
+        console.warn("TaskOn handshake failed, retrying:", error);
+        await new Promise(resolve =>
+          setTimeout(resolve, retryDelay * 2 ** (attempt - 1))
+        );
+        if (!this.iframe) {
+          // Destroyed while waiting
+          throw error;
+        }
+        // Setting src, even to the same URL, reloads the iframe
+        this.iframeLoaded = false;
+        this.iframe.setAttribute("src", this.iframe.src);
+      }
+    }
+  }
+
+  /**
+   * Reconnect when the iframe page starts over (deploy, crash, refresh inside
+   * the frame): the new page sends a new penpal handshake
+   */
+  private watchIframeReload(): void {
+    if (this.stopReloadWatch) return;
+    const onMessage = (event: MessageEvent) => {
+      if (
+        !this.iframe ||
+        event.source !== this.iframe.contentWindow ||
+        event.data?.namespace !== "penpal" ||
+        event.data.type !== "SYN" ||
+        !this.penpal
+      ) {
+        return;
+      }
+      // The new page is still loading
+      this.iframeLoaded = false;
+      void this.reconnect();
+    };
+    window.addEventListener("message", onMessage);
+    this.stopReloadWatch = () =>
+      window.removeEventListener("message", onMessage);
+  }
+
+  /**
+   * A second load of the connected page means it was reloaded, also when the
+   * new page failed to load and never sends a handshake
+   */
+  private handleIframeLoad(iframe: HTMLIFrameElement): void {
+    if (iframe !== this.iframe) return;
+    const reloaded = this.iframeLoaded;
+    this.iframeLoaded = true;
+    if (reloaded && this.penpal) {
+      void this.reconnect();
+    }
+  }
+
+  /**
+   * Connect again after the iframe page reloaded, and restore its state:
+   * wallet providers, theme, language, route and the logged in account.
+   * Calls made meanwhile are queued, calls in flight are sent again
+   */
+  private async reconnect(): Promise<void> {
+    if (this.reconnecting || !this.penpal) return;
+    const iframe = this.iframe;
+    const route = this._currentRoute;
+    const session = this._session;
+
+    this.reconnecting = true;
+    this.disconnect();
+
+    try {
+      await this.initPenpal();
+    } catch (error) {
+      if (this.iframe !== iframe) {
+        // Destroyed meanwhile
+        return;
+      }
+      this.reconnecting = false;
+      this.initialized = false;
+      this.loadPromise = null;
+      this.readyDeferred = createDeferred();
+      this.handleInitError(error);
+      this.commands.clear(error);
+      return;
+    }
+    if (this.iframe !== iframe || !this.penpal) return;
+    const penpal = this.penpal;
+
+    await this.notifyIframeOfProviders();
+    await this.initTheme();
+    await this.initAutoHeight();
+    try {
+      if (this.language) {
+        await penpal.setLanguage(this.language);
+      }
+      if (route) {
+        await penpal.setRoute(route);
+      }
+    } catch (error) {
+      console.warn("Failed to restore iframe language and route:", error);
+    }
+    if (session.status === "authenticated") {
+      try {
+        // The authorization cache of the account outlives the page
+        await penpal.login({
+          type: session.user.type,
+          account: session.user.account,
+        });
+      } catch {
+        if (this.config.auth) {
+          void this.autoLogin();
+        } else {
+          this.setAnonymous();
+        }
+      }
+    }
+
+    if (this.iframe !== iframe || this.penpal !== penpal) return;
+    this.reconnecting = false;
+    if (this._currentRoute !== route) {
+      this.emit("routeChanged", this._currentRoute);
+    }
+    this.commands.connect(penpal);
+    this.emit("reconnected");
+  }
+
+  /**
+   * Drop the connection to a page that is gone. Calls are queued until the
+   * next connection
+   */
+  private disconnect(): void {
+    this.penpalConnection?.destroy();
+    this.penpalConnection = null;
+    this.penpal = null;
+    this.commands.disconnect();
+    // The new page subscribes again once it got the providers
+    this.removeWalletListeners();
+    this.emit("disconnected");
+  }
+
+  /**
+   * Remove the iframe's wallet event handlers from the providers
+   */
+  private removeWalletListeners(): void {
+    for (const mapKey of this.eventListeners.keys()) {
+      const key = mapKey.slice(0, -":handlers".length);
+      this.moveWalletListeners(key, this.getOriginalProvider(key), null);
+    }
+    this.eventListeners.clear();
+  }
+
+  /**
+   * Connect to the iframe, failing when it does not connect within the
+   * timeout or the browser is offline. Browsers fire no `error` event for
+   * failed iframe navigations, so those end as handshake timeouts
+   */
+  private connectIframe(
+    methods: PenpalParentMethods,
+    timeout: number,
+    attempt: number
+  ): Promise<RemoteProxy<PenpalChildMethods>> {
+    const iframe = this.iframe;
+    if (!iframe?.contentWindow) {
+      throw new Error("Iframe not found");
+    }
+    if (navigator.onLine === false) {
+      return Promise.reject(new TaskOnOfflineError(iframe.src));
+    }
+
+    const messenger = new WindowMessenger({
+      remoteWindow: iframe.contentWindow,
+      allowedOrigins: [this.config.baseUrl],
+    });
     this.penpalConnection = connect<PenpalChildMethods>({
       messenger,
       methods,
     });
-    // wait for handshake
-    this.penpal = await this.penpalConnection.promise;
+    const connection = this.penpalConnection;
+
+    return new Promise((resolve, reject) => {
+      let iframeLoaded = false;
+      const onLoad = () => {
+        iframeLoaded = true;
+      };
+      const timer = setTimeout(() => {
+        cleanup();
+        reject(new TaskOnHandshakeTimeoutError(timeout, attempt, iframeLoaded));
+      }, timeout);
+      const cleanup = () => {
+        clearTimeout(timer);
+        iframe.removeEventListener("load", onLoad);
+      };
+
+      iframe.addEventListener("load", onLoad);
+      // wait for handshake
+      connection.promise.then(
+        remote => {
+          cleanup();
+          resolve(remote);
+        },
+        error => {
+          cleanup();
+          reject(error);
+        }
+      );
+    });
   }
 
   /**
-   * Get task_invite_code parameter from current URL
+   * Build the OAuth URL for a provider
+   *
+   * @param mode - How the URL will be opened
+   * @param flowId - Id the popup return URL is tagged with
+   * @returns The URL, or null if the oauth.beforeOpen hook cancelled the flow
+   */
+  private buildOauthUrl(
+    snsType: SnsType,
+    state: string,
+    mode: "redirect" | "popup",
+    flowId: string
+  ): string | null {
+    const oauth = this.config.oauth ?? {};
+    const paths = { ...DEFAULT_OAUTH_PATHS, ...oauth.providers };
+    const path = Object.prototype.hasOwnProperty.call(paths, snsType)
+      ? paths[snsType]
+      : undefined;
+    if (!path) {
+      throw new Error(`Invalid sns type: ${snsType}`);
+    }
+
+    const baseUrl =
+      oauth.baseUrl ??
+      (this.config.isDev
+        ? DEFAULT_OAUTH_STAGE_BASE_URL
+        : DEFAULT_OAUTH_BASE_URL);
+    const url = /^https?:\/\//.test(path)
+      ? new URL(path)
+      : new URL(
+          `${baseUrl.replace(/\/$/, "")}${path.startsWith("/") ? path : `/${path}`}`
+        );
+    url.searchParams.set("state", state);
+    url.searchParams.set(
+      "from",
+      mode === "popup"
+        ? createOAuthPopupReturnUrl(
+            this.config.oauthPopupCallbackUrl ?? window.location.href,
+            flowId
+          )
+        : createOAuthReturnUrl(this.config.id)
+    );
+
+    const result = oauth.beforeOpen?.(url, { snsType, state, mode });
+    if (result === false) {
+      return null;
+    }
+    return result ? result.toString() : url.toString();
+  }
+
+  /**
+   * Run an OAuth flow in a popup and pass the outcome back to the iframe
+   */
+  private async openOauthPopup(
+    snsType: SnsType,
+    state: string,
+    url: string,
+    flowId: string
+  ): Promise<void> {
+    const outcome = await openOAuthPopup(url, {
+      instanceId: this.config.id,
+      flowId,
+    });
+
+    if (outcome.status === "blocked") {
+      this.emit("oauthPopupBlocked", snsType);
+    } else if (outcome.status === "closed") {
+      this.emit("oauthPopupClosed", snsType);
+    } else {
+      this.emit("oauthCompleted", snsType);
+    }
+
+    try {
+      await this.penpal?.onOauthResult({
+        snsType,
+        state,
+        status: outcome.status,
+        callbackUrl:
+          outcome.status === "success" ? outcome.callbackUrl : undefined,
+      });
+    } catch (error) {
+      if (
+        !(error instanceof PenpalError) ||
+        error.code !== ErrorCode.MethodNotFound
+      ) {
+        console.warn("Failed to pass OAuth result to iframe:", error);
+        return;
+      }
+      // A TaskOn app without popup support reads OAuth responses from the
+      // host URL, as after a redirect: load the URL the popup returned to
+      this.oauthResultUnsupported = true;
+      console.warn(
+        "The TaskOn app does not support OAuth popups, falling back to redirect mode"
+      );
+      if (outcome.status === "success") {
+        this.redirectToOauth(
+          createOAuthReturnUrl(this.config.id, outcome.callbackUrl)
+        );
+      }
+    }
+  }
+
+  /**
+   * Navigate the host page for an OAuth flow in redirect mode, saving the
+   * route of this instance to restore it when the page is loaded again
+   */
+  private redirectToOauth(url: string): void {
+    if (this._currentRoute) {
+      localStorage.setItem(
+        namespaced("taskon_saved_route", this.config.id),
+        this._currentRoute
+      );
+    }
+    window.location.href = url;
+  }
+
+  /**
+   * Get task_invite_code parameter from current URL. The parameter of this
+   * instance (e.g. `task_invite_code.board`) wins over the plain one, which
+   * applies to all instances
    */
   private getTaskInviteCodeFromUrl(): string | null {
     const urlParams = new URLSearchParams(window.location.search);
-    return urlParams.get("task_invite_code");
+    return (
+      urlParams.get(namespaced("task_invite_code", this.config.id)) ??
+      urlParams.get("task_invite_code")
+    );
   }
 
   /**
    * Get parent page complete URL
    */
   private getParentFullUrl(): string {
-    return window.location.href;
+    // OAuth response parameters only go to the instance that started the flow
+    return getHostUrlForInstance(this.config.id);
   }
 
   /**
-   * Get the original provider from window object
+   * All keys the provider of a key is reachable under: keys of the same
+   * provider object, and keys sharing its EIP-6963 rdns (legacy globals of an
+   * announced wallet)
    */
-  private getOriginalProvider(providerKey: string): any {
-    const win = window as any;
-
-    // Handle nested providers like bitkeep.ethereum
-    if (providerKey.includes(".")) {
-      const keys = providerKey.split(".");
-      let provider = win;
-      for (const key of keys) {
-        provider = provider?.[key];
-        if (!provider) return null;
+  private getProviderKeys(providerKey: string): string[] {
+    const provider = this.getOriginalProvider(providerKey);
+    if (!provider) {
+      return [providerKey];
+    }
+    const rdns = this.providerInfo[providerKey]?.rdns;
+    const keys = new Set([providerKey]);
+    for (const [key, candidate] of Object.entries(this.availableProviders)) {
+      if (
+        candidate === provider ||
+        (rdns && this.providerInfo[key]?.rdns === rdns)
+      ) {
+        keys.add(key);
       }
-      return provider;
     }
+    for (const [key, registered] of this.customProviders) {
+      if (registered.provider === provider) {
+        keys.add(key);
+      }
+    }
+    return [...keys];
+  }
 
-    // Handle direct providers
-    return win[providerKey];
+  /**
+   * Get the original provider by key. Only discovered and registered providers
+   * resolve: the key comes from the iframe and must not reach other host page
+   * objects
+   */
+  private getOriginalProvider(providerKey: string): any {
+    if (
+      Object.prototype.hasOwnProperty.call(this.availableProviders, providerKey)
+    ) {
+      return this.availableProviders[providerKey];
+    }
+    return this.customProviders.get(providerKey)?.provider ?? null;
   }
 }
+
+/**
+ * Promise with its resolve and reject functions. Rejections are marked as
+ * handled, so a `ready` promise nobody awaits doesn't report them
+ */
+function createDeferred(): {
+  promise: Promise<void>;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+} {
+  let resolve!: () => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<void>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  promise.catch(() => {});
+  return { promise, resolve, reject };
+}
@@ -0,0 +1,66 @@
+/**
+ * Base class of the errors thrown and emitted by TaskOnEmbed
+ */
+export class TaskOnError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TaskOnError";
+  }
+}
+
+/**
+ * Error thrown when a method needing the iframe connection is called before
+ * init() or after destroy(), or when the embed is destroyed while the call
+ * waits for the iframe
+ */
+export class TaskOnNotInitializedError extends TaskOnError {
+  constructor(message: string = "Not initialized, please call .init() first") {
+    super(message);
+    this.name = "TaskOnNotInitializedError";
+  }
+}
+
+/**
+ * Error thrown by init() when the iframe did not connect in time, on every
+ * attempt. Usually a wrong `baseUrl`, an unreachable server or error page, or
+ * a page blocked by CSP or X-Frame-Options
+ */
+export class TaskOnHandshakeTimeoutError extends TaskOnError {
+  /** Handshake timeout of each attempt in milliseconds */
+  public readonly timeout: number;
+  /** Number of attempts made */
+  public readonly attempts: number;
+  /**
+   * Whether the iframe page loaded. A page that loads without connecting is
+   * not the TaskOn app, or is blocked
+   */
+  public readonly iframeLoaded: boolean;
+
+  constructor(timeout: number, attempts: number, iframeLoaded: boolean) {
+    const tries = attempts > 1 ? `, ${attempts} attempts` : "";
+    super(
+      iframeLoaded
+        ? `TaskOn iframe loaded but did not connect within ${timeout}ms${tries}. Check baseUrl and the Content Security Policy`
+        : `TaskOn iframe did not load within ${timeout}ms${tries}`
+    );
+    this.name = "TaskOnHandshakeTimeoutError";
+    this.timeout = timeout;
+    this.attempts = attempts;
+    this.iframeLoaded = iframeLoaded;
+  }
+}
+
+/**
+ * Error thrown by init() when the browser is offline. Other load failures
+ * are not reported by browsers and end as TaskOnHandshakeTimeoutError
+ */
+export class TaskOnOfflineError extends TaskOnError {
+  /** URL of the iframe */
+  public readonly url: string;
+
+  constructor(url: string, message: string = "The browser is offline") {
+    super(message);
+    this.name = "TaskOnOfflineError";
+    this.url = url;
+  }
+}
@@ -1,3 +1,33 @@
 export { TaskOnEmbed } from "./embed";
+export {
+  TaskOnError,
+  TaskOnHandshakeTimeoutError,
+  TaskOnNotInitializedError,
+  TaskOnOfflineError,
+} from "./errors";
+export { fetchLoginParams } from "./login";
+export type { FetchLoginParamsOptions } from "./login";
+export { handleOAuthPopupCallback } from "./oauth";
+export { preconnect } from "./resource-hints";
+export {
+  bindRouteSync,
+  createHistoryRouter,
+  createReactRouterAdapter,
+  createVueRouterAdapter,
+} from "./route-sync";
+export type {
+  ReactRouterLike,
+  RouteSyncOptions,
+  RouteSyncRouter,
+  VueRouterLike,
+} from "./route-sync";
+export {
+  buildDeepLink,
+  createTaskOnRoutes,
+  DEFAULT_ROUTE_PATHS,
+  readDeepLink,
+  TaskOnRoutes,
+} from "./routes";
+export type { DeepLinkOptions, TaskOnRoutePaths } from "./routes";
 export { trackVisit } from "./tracking";
 export * from "./types";
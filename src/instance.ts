@@ -0,0 +1,17 @@
+/**
+ * Name of a storage key or URL parameter of an embed instance, e.g.
+ * `taskon_saved_route.board`. Instances without id use the plain name
+ *
+ * @param name - Storage key or URL parameter name
+ * @param instanceId - Instance id from the embed configuration
+ */
+export function namespaced(name: string, instanceId?: string): string {
+  return instanceId ? `${name}.${instanceId}` : name;
+}
+
+/**
+ * Check that an instance id can be used in storage keys and URL parameters
+ */
+export function isValidInstanceId(instanceId: string): boolean {
+  return /^[A-Za-z0-9_-]+$/.test(instanceId);
+}
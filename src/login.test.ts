@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { fetchLoginParams, retrySignatureLogin } from "./login";
+
+const loginError = (name: string) =>
+  Object.assign(new Error("Login failed"), { name });
+
+describe("retrySignatureLogin", () => {
+  it("retries once when the signature expired", async () => {
+    const login = vi
+      .fn<() => Promise<void>>()
+      .mockRejectedValueOnce(loginError("signature_expired"))
+      .mockResolvedValueOnce();
+
+    await retrySignatureLogin(login);
+
+    expect(login).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries once when the signature is invalid", async () => {
+    const login = vi
+      .fn<() => Promise<void>>()
+      .mockRejectedValue({ code: "invalid_signature" });
+
+    await expect(retrySignatureLogin(login)).rejects.toEqual({
+      code: "invalid_signature",
+    });
+    expect(login).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry other errors", async () => {
+    const error = new Error("Network error");
+    const login = vi.fn<() => Promise<void>>().mockRejectedValue(error);
+
+    await expect(retrySignatureLogin(login)).rejects.toBe(error);
+    expect(login).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("fetchLoginParams", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it.each<[string, HeadersInit]>([
+    ["a Headers instance", new Headers({ "X-CSRF-Token": "token" })],
+    ["a tuple array", [["X-CSRF-Token", "token"]]],
+    ["an object", { "X-CSRF-Token": "token" }],
+  ])("sends headers given as %s", async (_, headers) => {
+    const fetchMock = vi
+      .fn<typeof fetch>()
+      .mockResolvedValue(new Response(JSON.stringify({ account: "a" })));
+    vi.stubGlobal("fetch", fetchMock);
+
+    await fetchLoginParams("/login", { init: { headers } });
+
+    const sent = new Headers(fetchMock.mock.calls[0][1]?.headers);
+    expect(sent.get("X-CSRF-Token")).toBe("token");
+    expect(sent.get("Content-Type")).toBe("application/json");
+  });
+});
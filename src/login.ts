@@ -0,0 +1,98 @@
+import { AuthType, LoginErrorCode, SignedLoginParams } from "./types";
+
+/**
+ * Options for fetchLoginParams
+ */
+export interface FetchLoginParamsOptions {
+  /** Expected login type, verified by the endpoint against the session */
+  type?: AuthType;
+  /** Expected account, verified by the endpoint against the session */
+  account?: string;
+  /** Extra fetch options (headers, credentials, signal...) */
+  init?: RequestInit;
+}
+
+/**
+ * Fetch signed login parameters from your login signature endpoint
+ * (see `createExpressLoginHandler` / `createFetchLoginHandler` in `@taskon/embed/node`)
+ *
+ * @param endpoint - URL of the login signature endpoint
+ * @param options - Request options
+ * @returns Parameters for `TaskOnEmbed.login()`
+ *
+ * @example
+ * ```typescript
+ * embed.on('loginRequired', async () => {
+ *   const params = await fetchLoginParams('/api/taskon/login');
+ *   await embed.login(params);
+ * });
+ * ```
+ */
+export async function fetchLoginParams(
+  endpoint: string,
+  options: FetchLoginParamsOptions = {}
+): Promise<SignedLoginParams> {
+  const { type, account, init } = options;
+  // Accepts every HeadersInit form: object, Headers instance or tuple array
+  const headers = new Headers(init?.headers);
+  if (!headers.has("Content-Type")) {
+    headers.set("Content-Type", "application/json");
+  }
+  const response = await fetch(endpoint, {
+    method: "POST",
+    credentials: "include",
+    ...init,
+    headers,
+    body: JSON.stringify({ type, account }),
+  });
+
+  if (!response.ok) {
+    let message = `HTTP error! status: ${response.status}`;
+    try {
+      const data = await response.json();
+      if (data?.error) {
+        message = data.error;
+      }
+    } catch {
+      // Keep the status message
+    }
+    throw new Error(message);
+  }
+
+  return response.json();
+}
+
+/**
+ * Log in with a fresh signature, and once more if the iframe rejected the
+ * signature as expired or invalid. Other errors are not retried.
+ *
+ * @param loginWithSignature - Fetches a signature and logs in
+ */
+export async function retrySignatureLogin(
+  loginWithSignature: () => Promise<void>
+): Promise<void> {
+  try {
+    await loginWithSignature();
+  } catch (error) {
+    const code = getLoginErrorCode(error);
+    if (code !== "signature_expired" && code !== "invalid_signature") {
+      throw error;
+    }
+    // The signature may have expired before it reached the iframe
+    await loginWithSignature();
+  }
+}
+
+/**
+ * Read the code of a login error. Penpal only forwards the name and message of
+ * Error instances, so the iframe sends the code as name
+ */
+function getLoginErrorCode(error: unknown): LoginErrorCode | undefined {
+  const { code, name } = (error ?? {}) as { code?: unknown; name?: unknown };
+  const value = code ?? name;
+  return value === "signature_required" ||
+    value === "signature_expired" ||
+    value === "invalid_signature"
+    ? value
+    : undefined;
+}
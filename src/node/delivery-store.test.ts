@@ -0,0 +1,161 @@
+import { mkdtemp, readdir, rm, utimes } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  FileWebhookDeliveryStore,
+  MemoryWebhookDeliveryStore,
+} from "./delivery-store.js";
+
+const LOCK_TTL_MS = 60 * 1000;
+
+describe("MemoryWebhookDeliveryStore", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("claims a delivery once until it is completed", async () => {
+    const store = new MemoryWebhookDeliveryStore();
+
+    expect(await store.claim("key", LOCK_TTL_MS)).toBe("claimed");
+    expect(await store.claim("key", LOCK_TTL_MS)).toBe("processing");
+    await store.complete("key");
+    expect(await store.claim("key", LOCK_TTL_MS)).toBe("completed");
+    expect(await store.claim("other", LOCK_TTL_MS)).toBe("claimed");
+  });
+
+  it("lets a released delivery be claimed again", async () => {
+    const store = new MemoryWebhookDeliveryStore();
+
+    await store.claim("key", LOCK_TTL_MS);
+    await store.release("key");
+
+    expect(await store.claim("key", LOCK_TTL_MS)).toBe("claimed");
+  });
+
+  it("expires locks after the TTL and completed deliveries after the retention", async () => {
+    vi.useFakeTimers();
+    const store = new MemoryWebhookDeliveryStore(10 * LOCK_TTL_MS);
+
+    await store.claim("key", LOCK_TTL_MS);
+    vi.advanceTimersByTime(LOCK_TTL_MS);
+    expect(await store.claim("key", LOCK_TTL_MS)).toBe("claimed");
+
+    await store.complete("key");
+    vi.advanceTimersByTime(10 * LOCK_TTL_MS - 1);
+    expect(await store.claim("key", LOCK_TTL_MS)).toBe("completed");
+    vi.advanceTimersByTime(1);
+    expect(await store.claim("key", LOCK_TTL_MS)).toBe("claimed");
+  });
+});
+
+describe("FileWebhookDeliveryStore", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "taskon-deliveries-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  /** Backdate the lock files so that they are older than the TTL */
+  const expireLocks = async () => {
+    const past = new Date(Date.now() - 2 * LOCK_TTL_MS);
+    for (const file of await readdir(directory)) {
+      if (file.endsWith(".lock")) {
+        await utimes(join(directory, file), past, past);
+      }
+    }
+  };
+
+  it("claims a delivery once until it is completed", async () => {
+    const store = new FileWebhookDeliveryStore(join(directory, "nested"));
+
+    expect(await store.claim("key", LOCK_TTL_MS)).toBe("claimed");
+    expect(await store.claim("key", LOCK_TTL_MS)).toBe("processing");
+    await store.complete("key");
+
+    expect(await store.isCompleted("key")).toBe(true);
+    expect(await store.claim("key", LOCK_TTL_MS)).toBe("completed");
+    expect(await store.claim("other", LOCK_TTL_MS)).toBe("claimed");
+  });
+
+  it("shares deliveries between stores using the same directory", async () => {
+    const first = new FileWebhookDeliveryStore(directory);
+    const second = new FileWebhookDeliveryStore(directory);
+
+    expect(await first.claim("key", LOCK_TTL_MS)).toBe("claimed");
+    expect(await second.claim("key", LOCK_TTL_MS)).toBe("processing");
+    await first.release("key");
+    expect(await second.claim("key", LOCK_TTL_MS)).toBe("claimed");
+    await second.complete("key");
+    expect(await first.claim("key", LOCK_TTL_MS)).toBe("completed");
+  });
+
+  it("lets one of many concurrent claims win", async () => {
+    const stores = Array.from(
+      { length: 10 },
+      () => new FileWebhookDeliveryStore(directory)
+    );
+
+    const results = await Promise.all(
+      stores.map(store => store.claim("key", LOCK_TTL_MS))
+    );
+
+    expect(results.filter(result => result === "claimed")).toHaveLength(1);
+    expect(results.filter(result => result === "processing")).toHaveLength(9);
+  });
+
+  it("takes over a stale lock once", async () => {
+    const crashed = new FileWebhookDeliveryStore(directory);
+    await crashed.claim("key", LOCK_TTL_MS);
+    await expireLocks();
+
+    const stores = Array.from(
+      { length: 10 },
+      () => new FileWebhookDeliveryStore(directory)
+    );
+    const results = await Promise.all(
+      stores.map(store => store.claim("key", LOCK_TTL_MS))
+    );
+
+    expect(results.filter(result => result === "claimed")).toHaveLength(1);
+  });
+
+  it("keeps the lock of the new owner when the stale owner settles", async () => {
+    const stale = new FileWebhookDeliveryStore(directory);
+    const owner = new FileWebhookDeliveryStore(directory);
+    const other = new FileWebhookDeliveryStore(directory);
+    await stale.claim("key", LOCK_TTL_MS);
+    await expireLocks();
+    expect(await owner.claim("key", LOCK_TTL_MS)).toBe("claimed");
+
+    await stale.release("key");
+
+    expect(await other.claim("key", LOCK_TTL_MS)).toBe("processing");
+    await owner.complete("key");
+    expect(await other.claim("key", LOCK_TTL_MS)).toBe("completed");
+  });
+
+  it("reports a delivery completed by the stale owner as completed", async () => {
+    const stale = new FileWebhookDeliveryStore(directory);
+    const owner = new FileWebhookDeliveryStore(directory);
+    await stale.claim("key", LOCK_TTL_MS);
+    await expireLocks();
+    expect(await owner.claim("key", LOCK_TTL_MS)).toBe("claimed");
+
+    await stale.complete("key");
+
+    expect(await owner.claim("key", LOCK_TTL_MS)).toBe("completed");
+  });
+
+  it("does not take over a fresh lock", async () => {
+    const first = new FileWebhookDeliveryStore(directory);
+    const second = new FileWebhookDeliveryStore(directory);
+    await first.claim("key", LOCK_TTL_MS);
+
+    expect(await second.claim("key", LOCK_TTL_MS)).toBe("processing");
+  });
+});
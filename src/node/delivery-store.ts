@@ -0,0 +1,434 @@
+import { createHash, randomUUID } from "crypto";
+import {
+  link,
+  mkdir,
+  open,
+  readFile,
+  rename,
+  rm,
+  writeFile,
+} from "fs/promises";
+import { join } from "path";
+
+/**
+ * Result of trying to claim a webhook delivery
+ * - claimed: the caller owns the delivery and must complete or release it
+ * - processing: another worker currently holds the delivery
+ * - completed: the delivery has already been processed
+ */
+export type DeliveryClaimResult = "claimed" | "processing" | "completed";
+
+/**
+ * Storage backend used to record processed webhook deliveries
+ *
+ * `claim` must be atomic: when called concurrently for the same key, only one
+ * caller may receive "claimed" while the lock is held.
+ */
+export interface WebhookDeliveryStore {
+  /**
+   * Claim a delivery for processing
+   * @param key - Delivery key
+   * @param lockTtlMs - How long the claim stays valid if never completed or released
+   */
+  claim(key: string, lockTtlMs: number): Promise<DeliveryClaimResult>;
+  /**
+   * Mark a claimed delivery as processed
+   * @param key - Delivery key
+   */
+  complete(key: string): Promise<void>;
+  /**
+   * Release a claimed delivery so that a retry can process it again
+   * @param key - Delivery key
+   */
+  release(key: string): Promise<void>;
+}
+
+/**
+ * In-memory delivery store
+ *
+ * Only deduplicates deliveries received by the same process. Use a shared
+ * backend when running several instances of your webhook endpoint.
+ */
+export class MemoryWebhookDeliveryStore implements WebhookDeliveryStore {
+  private entries: Map<
+    string,
+    { status: "processing" | "completed"; expiresAt: number }
+  > = new Map();
+  private retentionMs: number;
+
+  /**
+   * @param retentionMs - How long completed deliveries are remembered (default: 24 hours)
+   */
+  constructor(retentionMs: number = 24 * 60 * 60 * 1000) {
+    this.retentionMs = retentionMs;
+  }
+
+  public async claim(
+    key: string,
+    lockTtlMs: number
+  ): Promise<DeliveryClaimResult> {
+    const now = Date.now();
+    this.prune(now);
+
+    const entry = this.entries.get(key);
+    if (entry) {
+      return entry.status;
+    }
+    this.entries.set(key, { status: "processing", expiresAt: now + lockTtlMs });
+    return "claimed";
+  }
+
+  public async complete(key: string): Promise<void> {
+    this.entries.set(key, {
+      status: "completed",
+      expiresAt: Date.now() + this.retentionMs,
+    });
+  }
+
+  public async release(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  private prune(now: number): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * File system delivery store
+ *
+ * Keeps one lock file per in-flight delivery and one marker file per processed
+ * delivery inside `directory`. Claims rely on exclusive file creation, so the
+ * store is safe to share between processes on the same machine or volume.
+ *
+ * Each lock holds a random token. Taking over a stale lock first creates a
+ * takeover file named after its token, exclusively, so only one worker takes
+ * over a given lock. `complete` and `release` only remove the lock while it
+ * still holds the token of this store's claim.
+ */
+export class FileWebhookDeliveryStore implements WebhookDeliveryStore {
+  private directory: string;
+  private ready: Promise<unknown> | null = null;
+  /** Lock token and takeover file of the deliveries claimed by this store */
+  private claims: Map<string, { token: string; takeover: string | null }> =
+    new Map();
+
+  /**
+   * @param directory - Directory where delivery files are stored (created if missing)
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  public async claim(
+    key: string,
+    lockTtlMs: number
+  ): Promise<DeliveryClaimResult> {
+    await this.ensureDirectory();
+    const donePath = this.getPath(key, "done");
+    if (await this.exists(donePath)) {
+      return "completed";
+    }
+
+    const lockPath = this.getPath(key, "lock");
+    let token = await this.createLock(lockPath);
+    let takeover: string | null = null;
+    if (!token) {
+      // Take over locks left behind by crashed workers
+      const removed = await this.removeStaleLock(lockPath, lockTtlMs);
+      if (removed) {
+        takeover = removed.takeover;
+        token = await this.createLock(lockPath);
+      }
+    }
+    if (!token) {
+      return (await this.exists(donePath)) ? "completed" : "processing";
+    }
+
+    this.claims.set(key, { token, takeover });
+    // The previous owner may have completed the delivery meanwhile
+    if (await this.exists(donePath)) {
+      await this.release(key);
+      return "completed";
+    }
+    return "claimed";
+  }
+
+  public async complete(key: string): Promise<void> {
+    await this.ensureDirectory();
+    await writeFile(this.getPath(key, "done"), key);
+    await this.removeOwnLock(key);
+  }
+
+  public async release(key: string): Promise<void> {
+    await this.removeOwnLock(key);
+  }
+
+  /**
+   * Check whether a delivery has been processed
+   * @param key - Delivery key
+   */
+  public async isCompleted(key: string): Promise<boolean> {
+    return this.exists(this.getPath(key, "done"));
+  }
+
+  private ensureDirectory(): Promise<unknown> {
+    if (!this.ready) {
+      this.ready = mkdir(this.directory, { recursive: true });
+    }
+    return this.ready;
+  }
+
+  private getPath(key: string, extension: "lock" | "done"): string {
+    const hash = createHash("sha256").update(key).digest("hex");
+    return join(this.directory, `${hash}.${extension}`);
+  }
+
+  /**
+   * Create a lock holding a random token, unless the lock exists
+   *
+   * @returns The token, or null if the lock exists
+   */
+  private async createLock(path: string): Promise<string | null> {
+    const token = randomUUID();
+    return (await this.createExclusive(path, token)) ? token : null;
+  }
+
+  /**
+   * Remove the lock of a delivery claimed by this store, unless another
+   * worker took it over meanwhile
+   */
+  private async removeOwnLock(key: string): Promise<void> {
+    const claim = this.claims.get(key);
+    if (!claim) {
+      return;
+    }
+    this.claims.delete(key);
+    await this.removeLock(this.getPath(key, "lock"), claim.token);
+    if (claim.takeover) {
+      await rm(claim.takeover, { force: true });
+    }
+  }
+
+  /**
+   * Take over the lock if it is older than `lockTtlMs`
+   *
+   * The takeover file of its token is created exclusively, so one worker at
+   * most takes over a given lock, and the lock is only removed while it
+   * still holds that token.
+   *
+   * @returns The takeover file once the lock is gone, or null if the lock is
+   * held by another worker
+   */
+  private async removeStaleLock(
+    path: string,
+    lockTtlMs: number
+  ): Promise<{ takeover: string | null } | null> {
+    let token: string;
+    try {
+      const handle = await open(path, "r");
+      try {
+        const lock = await handle.stat();
+        if (Date.now() - lock.mtimeMs <= lockTtlMs) {
+          return null;
+        }
+        token = await handle.readFile("utf8");
+      } finally {
+        await handle.close();
+      }
+    } catch (error: any) {
+      if (error?.code === "ENOENT") {
+        return { takeover: null };
+      }
+      throw error;
+    }
+
+    // Kept until the delivery is completed or released, so a worker that
+    // read the same stale token later cannot take over the new lock
+    const takeover = `${path}.${createHash("sha256").update(token).digest("hex")}.takeover`;
+    if (!(await this.createExclusive(takeover, ""))) {
+      return null;
+    }
+    if (!(await this.removeLock(path, token))) {
+      await rm(takeover, { force: true });
+      return null;
+    }
+    return { takeover };
+  }
+
+  /**
+   * Remove the lock if it holds the token. The lock is renamed to a unique
+   * name first, which only one worker can do, and put back if it turns out to
+   * hold another token
+   *
+   * @returns Whether the lock is gone
+   */
+  private async removeLock(path: string, token: string): Promise<boolean> {
+    const movedPath = `${path}.${randomUUID()}`;
+    try {
+      await rename(path, movedPath);
+    } catch (error: any) {
+      if (error?.code === "ENOENT") {
+        return true;
+      }
+      throw error;
+    }
+    try {
+      if ((await readFile(movedPath, "utf8")) === token) {
+        return true;
+      }
+      // The lock changed hands: put it back. A worker that created a lock
+      // meanwhile owns the delivery now; either way the lock is not ours
+      await link(movedPath, path).catch((error: any) => {
+        if (error?.code !== "EEXIST") {
+          throw error;
+        }
+      });
+      return false;
+    } finally {
+      await rm(movedPath, { force: true });
+    }
+  }
+
+  /**
+   * Create a file with the content, unless it exists
+   */
+  private async createExclusive(
+    path: string,
+    content: string
+  ): Promise<boolean> {
+    let handle;
+    try {
+      handle = await open(path, "wx");
+    } catch (error: any) {
+      if (error?.code === "EEXIST") {
+        return false;
+      }
+      throw error;
+    }
+    try {
+      await handle.writeFile(content);
+    } finally {
+      await handle.close();
+    }
+    return true;
+  }
+
+  private async exists(path: string): Promise<boolean> {
+    try {
+      await readFile(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Minimal SQLite style database client
+ *
+ * Matches the async API of `sqlite` / `sqlite3` and can wrap synchronous
+ * clients such as `better-sqlite3`.
+ */
+export interface SqlDeliveryDatabase {
+  /** Execute a statement and report the number of changed rows */
+  run(sql: string, params: unknown[]): Promise<{ changes?: number }>;
+  /** Execute a query and return the first row */
+  get(sql: string, params: unknown[]): Promise<Record<string, any> | undefined>;
+}
+
+/**
+ * SQL delivery store for SQLite (and databases supporting `ON CONFLICT`)
+ *
+ * @example
+ * ```typescript
+ * import Database from "better-sqlite3";
+ *
+ * const db = new Database("webhooks.db");
+ * const store = new SqlWebhookDeliveryStore({
+ *   run: async (sql, params) => db.prepare(sql).run(...params),
+ *   get: async (sql, params) => db.prepare(sql).get(...params),
+ * });
+ * ```
+ */
+export class SqlWebhookDeliveryStore implements WebhookDeliveryStore {
+  private db: SqlDeliveryDatabase;
+  private table: string;
+  private ready: Promise<unknown> | null = null;
+
+  /**
+   * @param db - Database client
+   * @param table - Table name, created on first use (default: 'taskon_webhook_deliveries')
+   */
+  constructor(
+    db: SqlDeliveryDatabase,
+    table: string = "taskon_webhook_deliveries"
+  ) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+      throw new Error(`Invalid table name: ${table}`);
+    }
+    this.db = db;
+    this.table = table;
+  }
+
+  public async claim(
+    key: string,
+    lockTtlMs: number
+  ): Promise<DeliveryClaimResult> {
+    await this.ensureTable();
+    const now = Date.now();
+
+    const inserted = await this.db.run(
+      `INSERT INTO ${this.table} (delivery_key, status, locked_until) VALUES (?, 'processing', ?) ON CONFLICT (delivery_key) DO NOTHING`,
+      [key, now + lockTtlMs]
+    );
+    if (inserted.changes === 1) {
+      return "claimed";
+    }
+
+    // Take over locks left behind by crashed workers
+    const takenOver = await this.db.run(
+      `UPDATE ${this.table} SET locked_until = ? WHERE delivery_key = ? AND status = 'processing' AND locked_until < ?`,
+      [now + lockTtlMs, key, now]
+    );
+    if (takenOver.changes === 1) {
+      return "claimed";
+    }
+
+    const row = await this.db.get(
+      `SELECT status FROM ${this.table} WHERE delivery_key = ?`,
+      [key]
+    );
+    return row?.status === "completed" ? "completed" : "processing";
+  }
+
+  public async complete(key: string): Promise<void> {
+    await this.ensureTable();
+    await this.db.run(
+      `UPDATE ${this.table} SET status = 'completed', completed_at = ? WHERE delivery_key = ?`,
+      [Date.now(), key]
+    );
+  }
+
+  public async release(key: string): Promise<void> {
+    await this.ensureTable();
+    await this.db.run(
+      `DELETE FROM ${this.table} WHERE delivery_key = ? AND status = 'processing'`,
+      [key]
+    );
+  }
+
+  private ensureTable(): Promise<unknown> {
+    if (!this.ready) {
+      this.ready = this.db.run(
+        `CREATE TABLE IF NOT EXISTS ${this.table} (delivery_key TEXT PRIMARY KEY, status TEXT NOT NULL, locked_until INTEGER NOT NULL, completed_at INTEGER)`,
+        []
+      );
+    }
+    return this.ready;
+  }
+}
@@ -0,0 +1,11 @@
+export {
+  generateKeyPairWebCrypto,
+  signMessageWebCrypto,
+  verifySignatureWebCrypto,
+} from "./web-crypto.js";
+export {
+  buildSignMessage,
+  SIGNER_TYPES,
+  toSignerType,
+} from "./sign-message.js";
+export type { AuthType, SignerType } from "../auth-types.js";
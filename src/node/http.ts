@@ -0,0 +1,61 @@
+import type { IncomingMessage } from "http";
+
+/**
+ * Minimal Express compatible request shape
+ */
+export interface ExpressLikeRequest extends IncomingMessage {
+  /** Body parsed by a middleware such as `express.json()` or `express.raw()` */
+  body?: unknown;
+}
+
+/**
+ * Minimal Express compatible response shape
+ */
+export interface ExpressLikeResponse {
+  status(code: number): ExpressLikeResponse;
+  json(body: unknown): unknown;
+  setHeader?(name: string, value: string): unknown;
+}
+
+/**
+ * Read a single header value from a Node.js request
+ */
+export const getHeader = (
+  req: IncomingMessage,
+  name: string
+): string | undefined => {
+  const value = req.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+/**
+ * Read the full request body from a Node.js request stream
+ */
+export const readBody = async (req: IncomingMessage): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+/**
+ * Get the request body, preferring the one parsed by a body parsing middleware
+ */
+export const getExpressBody = async (
+  req: ExpressLikeRequest
+): Promise<unknown> => {
+  if (req.body === undefined || isEmptyObject(req.body)) {
+    return readBody(req);
+  }
+  return req.body;
+};
+
+const isEmptyObject = (value: unknown): boolean => {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !Buffer.isBuffer(value) &&
+    Object.keys(value).length === 0
+  );
+};
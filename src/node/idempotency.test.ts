@@ -0,0 +1,141 @@
+import { describe, expect, it, vi } from "vitest";
+import type { WebhookPayload } from "../webhook-types.js";
+import {
+  MemoryWebhookDeliveryStore,
+  type WebhookDeliveryStore,
+} from "./delivery-store.js";
+import {
+  getWebhookDeliveryKey,
+  processWebhookOnce,
+  WebhookCompletionError,
+} from "./idempotency.js";
+
+const payload: WebhookPayload = {
+  task_id: 1,
+  reward_type: "Token",
+  reward_amount: "10",
+  token_contract: "0x0000000000000000000000000000000000000001",
+  token_symbol: "USDT",
+  token_network: "eth",
+  user_id: 42,
+  email: "user@example.com",
+  evm_address: [],
+  timestamp: 1_700_000_000,
+};
+
+describe("getWebhookDeliveryKey", () => {
+  it("identifies a delivery by task, user, reward and timestamp", () => {
+    expect(getWebhookDeliveryKey(payload)).toBe(
+      "1:42:Token:0x0000000000000000000000000000000000000001:1700000000"
+    );
+    expect(getWebhookDeliveryKey({ ...payload, reward_amount: "20" })).toBe(
+      getWebhookDeliveryKey(payload)
+    );
+    expect(
+      getWebhookDeliveryKey({ ...payload, timestamp: payload.timestamp + 1 })
+    ).not.toBe(getWebhookDeliveryKey(payload));
+  });
+});
+
+describe("processWebhookOnce", () => {
+  it("runs the handler once per delivery", async () => {
+    const store = new MemoryWebhookDeliveryStore();
+    const handler = vi.fn();
+
+    expect(await processWebhookOnce(payload, handler, { store })).toBe(
+      "processed"
+    );
+    expect(await processWebhookOnce(payload, handler, { store })).toBe(
+      "duplicate"
+    );
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("skips a delivery processed concurrently", async () => {
+    const store = new MemoryWebhookDeliveryStore();
+    let finish = () => {};
+    const handler = vi.fn(
+      () => new Promise<void>(resolve => (finish = resolve))
+    );
+
+    const first = processWebhookOnce(payload, handler, { store });
+    await vi.waitFor(() => expect(handler).toHaveBeenCalled());
+    const second = await processWebhookOnce(payload, handler, { store });
+    finish();
+
+    expect(second).toBe("in_progress");
+    expect(await first).toBe("processed");
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("releases the delivery and rethrows when the handler throws", async () => {
+    const store = new MemoryWebhookDeliveryStore();
+    const handler = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Database unavailable"))
+      .mockResolvedValueOnce(undefined);
+
+    await expect(
+      processWebhookOnce(payload, handler, { store })
+    ).rejects.toThrow("Database unavailable");
+    expect(await processWebhookOnce(payload, handler, { store })).toBe(
+      "processed"
+    );
+    expect(handler).toHaveBeenCalledTimes(2);
+  });
+
+  it("uses the custom key", async () => {
+    const store = new MemoryWebhookDeliveryStore();
+    const handler = vi.fn();
+    const getKey = (delivery: WebhookPayload) => String(delivery.user_id);
+
+    await processWebhookOnce(payload, handler, { store, getKey });
+    const result = await processWebhookOnce(
+      { ...payload, task_id: 2 },
+      handler,
+      { store, getKey }
+    );
+
+    expect(result).toBe("duplicate");
+  });
+
+  it("retries marking the delivery as processed", async () => {
+    const store = new MemoryWebhookDeliveryStore();
+    const complete = vi
+      .spyOn(store, "complete")
+      .mockRejectedValueOnce(new Error("Disk full"))
+      .mockRejectedValueOnce(new Error("Disk full"));
+    const handler = vi.fn();
+
+    expect(await processWebhookOnce(payload, handler, { store })).toBe(
+      "processed"
+    );
+    expect(complete).toHaveBeenCalledTimes(3);
+    expect(await processWebhookOnce(payload, handler, { store })).toBe(
+      "duplicate"
+    );
+  });
+
+  it("throws a WebhookCompletionError when the store keeps failing", async () => {
+    const reason = new Error("Disk full");
+    const store: WebhookDeliveryStore = {
+      claim: async () => "claimed",
+      complete: vi.fn().mockRejectedValue(reason),
+      release: vi.fn(),
+    };
+    const handler = vi.fn();
+
+    const error = await processWebhookOnce(payload, handler, { store }).catch(
+      (error: unknown) => error
+    );
+
+    expect(error).toBeInstanceOf(WebhookCompletionError);
+    expect(error).toMatchObject({
+      key: getWebhookDeliveryKey(payload),
+      reason,
+    });
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(store.complete).toHaveBeenCalledTimes(3);
+    expect(store.release).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,154 @@
+import type { WebhookPayload } from "../webhook-types.js";
+import type { WebhookDeliveryStore } from "./delivery-store.js";
+
+/** Default time a claimed delivery stays locked if the handler never settles */
+const DEFAULT_LOCK_TTL_MS = 60 * 1000;
+
+/** Attempts to mark a delivery as processed before giving up */
+const COMPLETE_ATTEMPTS = 3;
+
+/** Delay before retrying to mark a delivery as processed, grows per attempt */
+const COMPLETE_RETRY_DELAY_MS = 100;
+
+/**
+ * Options for idempotent webhook processing
+ */
+export interface WebhookIdempotencyOptions {
+  /** Storage backend recording processed deliveries */
+  store: WebhookDeliveryStore;
+  /**
+   * How long (in milliseconds) a delivery stays locked while it is being
+   * processed (default: 60000). Should exceed your handler's worst-case duration.
+   */
+  lockTtlMs?: number;
+  /** Custom delivery key derivation (default: getWebhookDeliveryKey) */
+  getKey?: (payload: WebhookPayload) => string;
+}
+
+/**
+ * Outcome of idempotent webhook processing
+ * - processed: the handler ran for this delivery
+ * - duplicate: the delivery was already processed, the handler was skipped
+ * - in_progress: another worker is processing the delivery, the handler was skipped
+ */
+export type WebhookProcessResult = "processed" | "duplicate" | "in_progress";
+
+/**
+ * Error thrown by processWebhookOnce when the handler succeeded but the
+ * delivery could not be marked as processed
+ *
+ * The delivery stays locked until `lockTtlMs` expires; a retry received after
+ * that runs the handler again.
+ */
+export class WebhookCompletionError extends Error {
+  /** Delivery key */
+  public readonly key: string;
+  /** Error of the store on the last attempt */
+  public readonly reason: unknown;
+
+  constructor(key: string, reason: unknown) {
+    super(
+      `Webhook delivery ${key} was processed but could not be marked as processed`
+    );
+    this.name = "WebhookCompletionError";
+    this.key = key;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Derive a stable key identifying a single reward delivery
+ *
+ * Retries of the same delivery produce the same key.
+ *
+ * @param payload - Verified webhook payload
+ * @returns Delivery key
+ */
+export const getWebhookDeliveryKey = (payload: WebhookPayload): string => {
+  return [
+    payload.task_id,
+    payload.user_id,
+    payload.reward_type,
+    payload.token_contract ?? payload.point_name ?? "",
+    payload.timestamp,
+  ].join(":");
+};
+
+/**
+ * Run a webhook handler at most once per delivery
+ *
+ * The delivery is claimed in the store before the handler runs and marked as
+ * processed once it resolves. If the handler throws, the claim is released and
+ * the error is rethrown so that TaskOn retries the delivery.
+ *
+ * Marking the delivery as processed is retried; if the store still fails, a
+ * WebhookCompletionError is thrown. The handler has run at that point, so do
+ * not treat it as a handler failure.
+ *
+ * @param payload - Verified webhook payload
+ * @param handler - Reward handler
+ * @param options - Idempotency options
+ * @returns Whether the handler ran or the delivery was skipped
+ * @throws {WebhookCompletionError} If the handler ran but the store failed to
+ * record it
+ *
+ * @example
+ * ```typescript
+ * const store = new MemoryWebhookDeliveryStore();
+ *
+ * const result = await processWebhookOnce(payload, grantReward, { store });
+ * if (result === "in_progress") {
+ *   // Ask TaskOn to retry later
+ * }
+ * ```
+ */
+export const processWebhookOnce = async (
+  payload: WebhookPayload,
+  handler: (payload: WebhookPayload) => void | Promise<void>,
+  options: WebhookIdempotencyOptions
+): Promise<WebhookProcessResult> => {
+  const key = (options.getKey ?? getWebhookDeliveryKey)(payload);
+  const claim = await options.store.claim(
+    key,
+    options.lockTtlMs ?? DEFAULT_LOCK_TTL_MS
+  );
+  if (claim === "completed") {
+    return "duplicate";
+  }
+  if (claim === "processing") {
+    return "in_progress";
+  }
+
+  try {
+    await handler(payload);
+  } catch (error) {
+    await options.store.release(key);
+    throw error;
+  }
+  await completeDelivery(options.store, key);
+  return "processed";
+};
+
+/**
+ * Mark a delivery as processed, retrying store failures
+ */
+const completeDelivery = async (
+  store: WebhookDeliveryStore,
+  key: string
+): Promise<void> => {
+  let reason: unknown;
+  for (let attempt = 1; attempt <= COMPLETE_ATTEMPTS; attempt++) {
+    try {
+      await store.complete(key);
+      return;
+    } catch (error) {
+      reason = error;
+    }
+    if (attempt < COMPLETE_ATTEMPTS) {
+      await new Promise(resolve =>
+        setTimeout(resolve, COMPLETE_RETRY_DELAY_MS * attempt)
+      );
+    }
+  }
+  throw new WebhookCompletionError(key, reason);
+};
@@ -1 +1,62 @@
-export { signMessage } from "./sign.js";
+export { generateKeyPair, signMessage, verifySignature } from "./sign.js";
+export type { GenerateKeyPairOptions, KeyFormat } from "./sign.js";
+export {
+  buildSignMessage,
+  SIGNER_TYPES,
+  toSignerType,
+} from "./sign-message.js";
+export {
+  generateKeyPairWebCrypto,
+  signMessageWebCrypto,
+  verifySignatureWebCrypto,
+} from "./web-crypto.js";
+export type { AuthType, SignedLoginParams, SignerType } from "../auth-types.js";
+export {
+  createExpressWebhookHandler,
+  createFetchWebhookHandler,
+  createWebhookHandler,
+  getWebhookSigningPayload,
+  signWebhookPayload,
+  verifyWebhook,
+  WebhookVerificationError,
+} from "./webhook.js";
+export {
+  createExpressLoginHandler,
+  createFetchLoginHandler,
+  createLoginParams,
+  normalizeAccount,
+} from "./login-endpoint.js";
+export type {
+  LoginRateLimitOptions,
+  LoginSessionUser,
+  LoginSignatureErrorBody,
+  LoginSignatureHandlerOptions,
+} from "./login-endpoint.js";
+export type { ExpressLikeRequest, ExpressLikeResponse } from "./http.js";
+export type {
+  VerifyWebhookOptions,
+  WebhookHandlerOptions,
+  WebhookHeaders,
+  WebhookResponseBody,
+  WebhookVerificationErrorCode,
+} from "./webhook.js";
+export {
+  FileWebhookDeliveryStore,
+  MemoryWebhookDeliveryStore,
+  SqlWebhookDeliveryStore,
+} from "./delivery-store.js";
+export type {
+  DeliveryClaimResult,
+  SqlDeliveryDatabase,
+  WebhookDeliveryStore,
+} from "./delivery-store.js";
+export {
+  getWebhookDeliveryKey,
+  processWebhookOnce,
+  WebhookCompletionError,
+} from "./idempotency.js";
+export type {
+  WebhookIdempotencyOptions,
+  WebhookProcessResult,
+} from "./idempotency.js";
+export type { WebhookPayload } from "../webhook-types.js";
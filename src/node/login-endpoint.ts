@@ -0,0 +1,323 @@
+import type { KeyObject } from "crypto";
+import type { AuthType, SignedLoginParams } from "../auth-types.js";
+import {
+  ExpressLikeRequest,
+  ExpressLikeResponse,
+  getExpressBody,
+} from "./http.js";
+import { signMessage } from "./sign.js";
+
+/**
+ * User of the current session on your backend
+ */
+export interface LoginSessionUser {
+  /** Type of login credential */
+  type: AuthType;
+  /** Account (email address or wallet address) */
+  account: string;
+  /** Default username for new user(optional) */
+  username?: string;
+}
+
+/**
+ * Rate limit of a login signature endpoint
+ */
+export interface LoginRateLimitOptions {
+  /** Maximum number of signatures per window and account (default: 10) */
+  max?: number;
+  /** Window length in milliseconds (default: 60000) */
+  windowMs?: number;
+}
+
+/**
+ * Options for the login signature handlers
+ */
+export interface LoginSignatureHandlerOptions<TRequest> {
+  /** TaskOn client identifier */
+  clientId: string;
+  /** RSA private key, see signMessage */
+  privateKey: string | KeyObject;
+  /**
+   * Resolve the logged in user from your own session. Return null when the
+   * request is not authenticated. Errors are logged and answered with 500.
+   */
+  resolveUser: (
+    request: TRequest
+  ) => LoginSessionUser | null | Promise<LoginSessionUser | null>;
+  /** Rate limit per account, or false to disable (default: 10 per minute) */
+  rateLimit?: LoginRateLimitOptions | false;
+}
+
+/**
+ * Error response body of the login signature handlers
+ */
+export interface LoginSignatureErrorBody {
+  error: string;
+}
+
+/**
+ * Normalize an account for signing: EVM and bech32 Bitcoin addresses are
+ * lowercased, other accounts are trimmed. Solana and TON addresses are case
+ * sensitive.
+ *
+ * @param type - Authentication type
+ * @param account - Account identifier
+ */
+export const normalizeAccount = (type: AuthType, account: string): string => {
+  const trimmed = account.trim();
+  if (type === "WalletAddress") {
+    return trimmed.toLowerCase();
+  }
+  if (type === "BitcoinAddress" && /^(bc|tb|bcrt)1/i.test(trimmed)) {
+    return trimmed.toLowerCase();
+  }
+  return trimmed;
+};
+
+/**
+ * Create the signed login parameters for a session user
+ *
+ * @param user - Session user
+ * @param clientId - TaskOn client identifier
+ * @param privateKey - RSA private key, see signMessage
+ * @returns Parameters for `TaskOnEmbed.login()`
+ */
+export const createLoginParams = (
+  user: LoginSessionUser,
+  clientId: string,
+  privateKey: string | KeyObject
+): SignedLoginParams => {
+  const account = normalizeAccount(user.type, user.account);
+  const { signature, timestamp } = signMessage(
+    clientId,
+    user.type,
+    account,
+    privateKey
+  );
+  return {
+    type: user.type,
+    account,
+    signature,
+    timestamp,
+    ...(user.username ? { username: user.username } : {}),
+  };
+};
+
+/**
+ * Create a login signature handler for Express style frameworks
+ *
+ * The browser may send `{ type, account }` as JSON body; when present it must
+ * match the session user.
+ *
+ * @example
+ * ```typescript
+ * app.post(
+ *   "/api/taskon/login",
+ *   express.json(),
+ *   createExpressLoginHandler({
+ *     clientId: process.env.TASKON_CLIENT_ID!,
+ *     privateKey: process.env.TASKON_PRIVATE_KEY!,
+ *     resolveUser: req =>
+ *       req.session.user
+ *         ? { type: "Email", account: req.session.user.email }
+ *         : null,
+ *   })
+ * );
+ * ```
+ */
+export const createExpressLoginHandler = <
+  TRequest extends ExpressLikeRequest = ExpressLikeRequest,
+>(
+  options: LoginSignatureHandlerOptions<TRequest>
+): ((req: TRequest, res: ExpressLikeResponse) => Promise<void>) => {
+  const handle = createLoginSignatureHandler(options);
+  return async (req, res) => {
+    const result = await handle(req, () => getExpressBody(req));
+    if (result.retryAfter !== undefined) {
+      res.setHeader?.("Retry-After", String(result.retryAfter));
+    }
+    res.status(result.status).json(result.body);
+  };
+};
+
+/**
+ * Create a login signature handler for Fetch API runtimes
+ *
+ * @example
+ * ```typescript
+ * // app/api/taskon/login/route.ts
+ * export const POST = createFetchLoginHandler({
+ *   clientId: process.env.TASKON_CLIENT_ID!,
+ *   privateKey: process.env.TASKON_PRIVATE_KEY!,
+ *   resolveUser: async request => {
+ *     const session = await getSession(request);
+ *     return session ? { type: "Email", account: session.email } : null;
+ *   },
+ * });
+ * ```
+ */
+export const createFetchLoginHandler = (
+  options: LoginSignatureHandlerOptions<Request>
+): ((request: Request) => Promise<Response>) => {
+  const handle = createLoginSignatureHandler(options);
+  return async request => {
+    const result = await handle(request, () => request.text());
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (result.retryAfter !== undefined) {
+      headers["Retry-After"] = String(result.retryAfter);
+    }
+    return new Response(JSON.stringify(result.body), {
+      status: result.status,
+      headers,
+    });
+  };
+};
+
+type LoginSignatureResult = {
+  status: number;
+  body: SignedLoginParams | LoginSignatureErrorBody;
+  retryAfter?: number;
+};
+
+/**
+ * Framework independent implementation of the login signature endpoint
+ */
+const createLoginSignatureHandler = <TRequest>(
+  options: LoginSignatureHandlerOptions<TRequest>
+) => {
+  const limiter =
+    options.rateLimit === false
+      ? null
+      : new FixedWindowRateLimiter(
+          options.rateLimit?.max ?? 10,
+          options.rateLimit?.windowMs ?? 60 * 1000
+        );
+
+  return async (
+    request: TRequest,
+    readBody: () => Promise<unknown>
+  ): Promise<LoginSignatureResult> => {
+    let user: LoginSessionUser | null;
+    try {
+      user = await options.resolveUser(request);
+    } catch (error) {
+      console.error("Resolving the login user failed:", error);
+      return { status: 500, body: { error: "Failed to resolve the user" } };
+    }
+    if (!user) {
+      return { status: 401, body: { error: "Not logged in" } };
+    }
+
+    let requested: Partial<LoginSessionUser>;
+    try {
+      requested = parseRequestedAccount(await readBody());
+    } catch {
+      return { status: 400, body: { error: "Invalid request body" } };
+    }
+    if (requested.type && requested.type !== user.type) {
+      return { status: 403, body: { error: "Login type mismatch" } };
+    }
+    if (
+      requested.account &&
+      !isSameAccount(user.type, requested.account, user.account)
+    ) {
+      return { status: 403, body: { error: "Account mismatch" } };
+    }
+
+    if (limiter) {
+      const retryAfter = limiter.hit(
+        `${user.type}:${normalizeAccount(user.type, user.account)}`
+      );
+      if (retryAfter > 0) {
+        return {
+          status: 429,
+          body: { error: "Too many requests" },
+          retryAfter: Math.ceil(retryAfter / 1000),
+        };
+      }
+    }
+
+    try {
+      return {
+        status: 200,
+        body: createLoginParams(user, options.clientId, options.privateKey),
+      };
+    } catch (error) {
+      console.error("Signature generation failed:", error);
+      return { status: 500, body: { error: "Signature generation failed" } };
+    }
+  };
+};
+
+/**
+ * Compare accounts, ignoring case for emails
+ */
+const isSameAccount = (type: AuthType, a: string, b: string): boolean => {
+  const normalizedA = normalizeAccount(type, a);
+  const normalizedB = normalizeAccount(type, b);
+  return type === "Email"
+    ? normalizedA.toLowerCase() === normalizedB.toLowerCase()
+    : normalizedA === normalizedB;
+};
+
+/**
+ * Parse the optional `{ type, account }` request body
+ */
+const parseRequestedAccount = (body: unknown): Partial<LoginSessionUser> => {
+  let parsed = body;
+  if (typeof body === "string" || Buffer.isBuffer(body)) {
+    const text = body.toString().trim();
+    parsed = text ? JSON.parse(text) : {};
+  }
+  if (!parsed || typeof parsed !== "object") {
+    return {};
+  }
+  const { type, account } = parsed as Record<string, unknown>;
+  if (
+    (type !== undefined && typeof type !== "string") ||
+    (account !== undefined && typeof account !== "string")
+  ) {
+    throw new Error("Invalid request body");
+  }
+  return { type: type as AuthType | undefined, account };
+};
+
+/**
+ * In-memory fixed window rate limiter
+ */
+class FixedWindowRateLimiter {
+  private windows: Map<string, { count: number; resetAt: number }> = new Map();
+  private max: number;
+  private windowMs: number;
+
+  constructor(max: number, windowMs: number) {
+    this.max = max;
+    this.windowMs = windowMs;
+  }
+
+  /**
+   * Count a hit for the key
+   * @returns 0 if allowed, otherwise milliseconds until the window resets
+   */
+  public hit(key: string): number {
+    const now = Date.now();
+    for (const [windowKey, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(windowKey);
+      }
+    }
+
+    const window = this.windows.get(key);
+    if (!window) {
+      this.windows.set(key, { count: 1, resetAt: now + this.windowMs });
+      return 0;
+    }
+    if (window.count >= this.max) {
+      return window.resetAt - now;
+    }
+    window.count++;
+    return 0;
+  }
+}
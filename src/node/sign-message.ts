@@ -0,0 +1,52 @@
+import type { AuthType, SignerType } from "../auth-types.js";
+
+/**
+ * Mapping between the SDK authentication types and the signed message types
+ */
+export const SIGNER_TYPES: Record<AuthType, SignerType> = {
+  Email: "Email",
+  WalletAddress: "evm",
+  SolanaAddress: "solana",
+  TonAddress: "ton",
+  BitcoinAddress: "bitcoin",
+};
+
+/**
+ * Resolve the signed message type of an authentication type
+ *
+ * @param type - SDK authentication type (e.g. 'WalletAddress') or signer type (e.g. 'evm')
+ * @returns Signer type used in the signed message
+ *
+ * @example
+ * ```typescript
+ * toSignerType("WalletAddress"); // "evm"
+ * toSignerType("SolanaAddress"); // "solana"
+ * toSignerType("evm"); // "evm"
+ * ```
+ */
+export const toSignerType = (type: AuthType | SignerType): SignerType => {
+  if (Object.prototype.hasOwnProperty.call(SIGNER_TYPES, type)) {
+    return SIGNER_TYPES[type as AuthType];
+  }
+  if ((Object.values(SIGNER_TYPES) as string[]).includes(type)) {
+    return type as SignerType;
+  }
+  throw new Error(`Invalid signer type: ${type}`);
+};
+
+/**
+ * Build the message signed for login: `${type}|${account}|${clientId}|${timestamp}`
+ *
+ * @param clientId - TaskOn client identifier
+ * @param type - Authentication type or signer type
+ * @param account - Email address or wallet address
+ * @param timestamp - Signature timestamp in milliseconds
+ */
+export const buildSignMessage = (
+  clientId: string,
+  type: AuthType | SignerType,
+  account: string,
+  timestamp: number
+): string => {
+  return `${toSignerType(type)}|${account}|${clientId}|${timestamp}`;
+};
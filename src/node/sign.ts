@@ -1,32 +1,167 @@
-import { createSign } from "crypto";
+import {
+  createPrivateKey,
+  createPublicKey,
+  createSign,
+  createVerify,
+  generateKeyPairSync,
+  KeyObject,
+} from "crypto";
+import type { AuthType, SignerType } from "../auth-types.js";
+import { buildSignMessage } from "./sign-message.js";
+
+/**
+ * Encoding of generated keys
+ * - base64: base64 encoded DER, the format accepted by the TaskOn dashboard
+ * - pem: PEM text
+ */
+export type KeyFormat = "base64" | "pem";
+
+/**
+ * Options for key pair generation
+ */
+export interface GenerateKeyPairOptions {
+  /** Output format (default: 'base64') */
+  format?: KeyFormat;
+  /**
+   * Key structure (default: 'pkcs1')
+   * - pkcs1: PKCS#1 private key / PKCS#1 public key
+   * - pkcs8: PKCS#8 private key / SPKI public key
+   */
+  encoding?: "pkcs1" | "pkcs8";
+  /** RSA modulus length in bits (default: 2048) */
+  modulusLength?: number;
+}
 
 /**
  * Node.js signature function using crypto module
  * Signs a message with RSA-SHA256 for Node.js environments
+ *
+ * The private key can be a base64 encoded DER key (PKCS#1 or PKCS#8), a PEM
+ * string or a KeyObject. `type` accepts the SDK auth type ('WalletAddress',
+ * 'SolanaAddress', ...) as well as the signer type ('evm', 'solana', ...).
  */
 export const signMessage = (
   clientId: string,
-  type: "Email" | "evm",
+  type: SignerType | AuthType,
   account: string,
-  privateKey: string
+  privateKey: string | KeyObject
 ): {
   signature: string;
   timestamp: number;
 } => {
   const timestamp = Date.now();
-  const message = `${type}|${account}|${clientId}|${timestamp}`;
+  const message = buildSignMessage(clientId, type, account, timestamp);
 
-  const privateKeyBuffer = Buffer.from(privateKey, "base64");
   const sign = createSign("RSA-SHA256");
   sign.update(message);
-  const signature = sign.sign({
-    key: privateKeyBuffer,
-    format: "der",
-    type: "pkcs1",
-  });
+  const signature = sign.sign(toPrivateKey(privateKey));
 
   return {
     signature: signature.toString("base64"),
     timestamp: timestamp,
   };
 };
+
+/**
+ * Verify a login signature created by signMessage
+ *
+ * @param clientId - TaskOn client identifier
+ * @param type - Authentication type or signer type
+ * @param account - Email address or wallet address
+ * @param timestamp - Timestamp returned by signMessage
+ * @param signature - Base64 encoded signature
+ * @param publicKey - Base64 encoded DER key (PKCS#1 or SPKI), PEM string or KeyObject
+ * @returns true if the signature is valid
+ *
+ * @example
+ * ```typescript
+ * const { signature, timestamp } = signMessage(clientId, "Email", account, privateKey);
+ * verifySignature(clientId, "Email", account, timestamp, signature, publicKey); // true
+ * ```
+ */
+export const verifySignature = (
+  clientId: string,
+  type: SignerType | AuthType,
+  account: string,
+  timestamp: number,
+  signature: string,
+  publicKey: string | KeyObject
+): boolean => {
+  const message = buildSignMessage(clientId, type, account, timestamp);
+
+  const verify = createVerify("RSA-SHA256");
+  verify.update(message);
+  return verify.verify(
+    toPublicKey(publicKey),
+    Buffer.from(signature, "base64")
+  );
+};
+
+/**
+ * Generate an RSA key pair for login signatures
+ *
+ * @param options - Key generation options
+ * @returns Private key (keep on your server) and public key (register with TaskOn)
+ *
+ * @example
+ * ```typescript
+ * const { privateKey, publicKey } = generateKeyPair();
+ * ```
+ */
+export const generateKeyPair = (
+  options: GenerateKeyPairOptions = {}
+): { privateKey: string; publicKey: string } => {
+  const format = options.format ?? "base64";
+  const encoding = options.encoding ?? "pkcs1";
+  const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+    modulusLength: options.modulusLength ?? 2048,
+  });
+
+  const exportKey = (key: KeyObject, type: "pkcs1" | "pkcs8" | "spki") => {
+    if (format === "pem") {
+      return key.export({ format: "pem", type }) as string;
+    }
+    return (key.export({ format: "der", type }) as Buffer).toString("base64");
+  };
+
+  return {
+    privateKey: exportKey(privateKey, encoding),
+    publicKey: exportKey(publicKey, encoding === "pkcs1" ? "pkcs1" : "spki"),
+  };
+};
+
+/**
+ * Parse a private key given as KeyObject, PEM or base64 DER (PKCS#1 or PKCS#8)
+ */
+const toPrivateKey = (key: string | KeyObject): KeyObject => {
+  if (typeof key !== "string") {
+    return key;
+  }
+  if (key.includes("-----BEGIN")) {
+    return createPrivateKey(key);
+  }
+  const der = Buffer.from(key, "base64");
+  try {
+    return createPrivateKey({ key: der, format: "der", type: "pkcs1" });
+  } catch {
+    return createPrivateKey({ key: der, format: "der", type: "pkcs8" });
+  }
+};
+
+/**
+ * Parse a public key given as KeyObject, PEM or base64 DER (PKCS#1 or SPKI)
+ */
+const toPublicKey = (key: string | KeyObject): KeyObject => {
+  if (typeof key !== "string") {
+    return key.type === "private" ? createPublicKey(key) : key;
+  }
+  if (key.includes("-----BEGIN")) {
+    return createPublicKey(key);
+  }
+  const der = Buffer.from(key, "base64");
+  try {
+    return createPublicKey({ key: der, format: "der", type: "spki" });
+  } catch {
+    return createPublicKey({ key: der, format: "der", type: "pkcs1" });
+  }
+};
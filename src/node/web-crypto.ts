@@ -0,0 +1,225 @@
+import type { webcrypto } from "crypto";
+import type { AuthType, SignerType } from "../auth-types.js";
+import { buildSignMessage } from "./sign-message.js";
+
+/**
+ * Web Crypto implementations of the login signature helpers.
+ *
+ * This module only relies on `crypto.subtle`, `atob` and `btoa`, so it runs in
+ * edge and worker runtimes (Cloudflare Workers, Vercel Edge, Deno, Bun) as
+ * well as in Node.js 18+.
+ */
+
+type CryptoKey = webcrypto.CryptoKey;
+
+const ALGORITHM = { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" };
+
+/** DER encoded AlgorithmIdentifier for rsaEncryption with NULL parameters */
+const RSA_ALGORITHM_IDENTIFIER = [
+  0x30, 0x0d, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01,
+  0x05, 0x00,
+];
+
+/**
+ * Sign a login message with Web Crypto
+ *
+ * Same output as signMessage, asynchronous because Web Crypto is.
+ *
+ * @param clientId - TaskOn client identifier
+ * @param type - Authentication type or signer type
+ * @param account - Email address or wallet address
+ * @param privateKey - Base64 encoded DER key (PKCS#1 or PKCS#8), PEM string or CryptoKey
+ *
+ * @example
+ * ```typescript
+ * // Cloudflare Worker
+ * import { signMessageWebCrypto } from "@taskon/embed/edge";
+ *
+ * const { signature, timestamp } = await signMessageWebCrypto(
+ *   env.TASKON_CLIENT_ID,
+ *   "Email",
+ *   "user@example.com",
+ *   env.TASKON_PRIVATE_KEY
+ * );
+ * ```
+ */
+export const signMessageWebCrypto = async (
+  clientId: string,
+  type: SignerType | AuthType,
+  account: string,
+  privateKey: string | CryptoKey
+): Promise<{
+  signature: string;
+  timestamp: number;
+}> => {
+  const timestamp = Date.now();
+  const message = buildSignMessage(clientId, type, account, timestamp);
+
+  const key =
+    typeof privateKey === "string"
+      ? await importPrivateKey(privateKey)
+      : privateKey;
+  const signature = await crypto.subtle.sign(
+    ALGORITHM,
+    key,
+    new TextEncoder().encode(message)
+  );
+
+  return {
+    signature: toBase64(new Uint8Array(signature)),
+    timestamp,
+  };
+};
+
+/**
+ * Verify a login signature with Web Crypto
+ *
+ * @param clientId - TaskOn client identifier
+ * @param type - Authentication type or signer type
+ * @param account - Email address or wallet address
+ * @param timestamp - Timestamp returned by the signer
+ * @param signature - Base64 encoded signature
+ * @param publicKey - Base64 encoded DER key (PKCS#1 or SPKI), PEM string or CryptoKey
+ * @returns true if the signature is valid
+ */
+export const verifySignatureWebCrypto = async (
+  clientId: string,
+  type: SignerType | AuthType,
+  account: string,
+  timestamp: number,
+  signature: string,
+  publicKey: string | CryptoKey
+): Promise<boolean> => {
+  const message = buildSignMessage(clientId, type, account, timestamp);
+
+  const key =
+    typeof publicKey === "string"
+      ? await importPublicKey(publicKey)
+      : publicKey;
+  return crypto.subtle.verify(
+    ALGORITHM,
+    key,
+    fromBase64(signature),
+    new TextEncoder().encode(message)
+  );
+};
+
+/**
+ * Generate an RSA key pair with Web Crypto
+ *
+ * @param modulusLength - RSA modulus length in bits (default: 2048)
+ * @returns Base64 encoded DER keys: PKCS#8 private key and SPKI public key
+ */
+export const generateKeyPairWebCrypto = async (
+  modulusLength: number = 2048
+): Promise<{ privateKey: string; publicKey: string }> => {
+  const keyPair = (await crypto.subtle.generateKey(
+    {
+      ...ALGORITHM,
+      modulusLength,
+      publicExponent: new Uint8Array([0x01, 0x00, 0x01]),
+    },
+    true,
+    ["sign", "verify"]
+  )) as webcrypto.CryptoKeyPair;
+
+  const privateKey = await crypto.subtle.exportKey("pkcs8", keyPair.privateKey);
+  const publicKey = await crypto.subtle.exportKey("spki", keyPair.publicKey);
+  return {
+    privateKey: toBase64(new Uint8Array(privateKey)),
+    publicKey: toBase64(new Uint8Array(publicKey)),
+  };
+};
+
+/**
+ * Import a private key, converting PKCS#1 to the PKCS#8 structure Web Crypto expects
+ */
+const importPrivateKey = (key: string): Promise<CryptoKey> => {
+  let der = decodeKey(key);
+  // PKCS#1: SEQUENCE { INTEGER version, INTEGER modulus, ... }
+  // PKCS#8: SEQUENCE { INTEGER version, SEQUENCE algorithm, OCTET STRING key }
+  const content = readSequenceContent(der);
+  const isPkcs1 = content[3] === 0x02;
+  if (isPkcs1) {
+    der = encodeDer(0x30, [
+      0x02,
+      0x01,
+      0x00,
+      ...RSA_ALGORITHM_IDENTIFIER,
+      ...encodeDer(0x04, der),
+    ]);
+  }
+  return crypto.subtle.importKey("pkcs8", der, ALGORITHM, false, ["sign"]);
+};
+
+/**
+ * Import a public key, converting PKCS#1 to the SPKI structure Web Crypto expects
+ */
+const importPublicKey = (key: string): Promise<CryptoKey> => {
+  let der = decodeKey(key);
+  // PKCS#1: SEQUENCE { INTEGER modulus, INTEGER exponent }
+  // SPKI: SEQUENCE { SEQUENCE algorithm, BIT STRING key }
+  const isPkcs1 = readSequenceContent(der)[0] === 0x02;
+  if (isPkcs1) {
+    der = encodeDer(0x30, [
+      ...RSA_ALGORITHM_IDENTIFIER,
+      ...encodeDer(0x03, [0x00, ...der]),
+    ]);
+  }
+  return crypto.subtle.importKey("spki", der, ALGORITHM, false, ["verify"]);
+};
+
+/**
+ * Decode a PEM or base64 key into DER bytes
+ */
+const decodeKey = (key: string): Uint8Array => {
+  const base64 = key
+    .replace(/-----(BEGIN|END)[^-]*-----/g, "")
+    .replace(/\s+/g, "");
+  return fromBase64(base64);
+};
+
+/**
+ * Return the content bytes of a DER SEQUENCE
+ */
+const readSequenceContent = (der: Uint8Array): Uint8Array => {
+  if (der[0] !== 0x30) {
+    throw new Error("Invalid key: expected a DER sequence");
+  }
+  const lengthByte = der[1];
+  const offset = lengthByte & 0x80 ? 2 + (lengthByte & 0x7f) : 2;
+  return der.subarray(offset);
+};
+
+/**
+ * Encode a DER TLV (tag, length, value)
+ */
+const encodeDer = (tag: number, value: ArrayLike<number>): Uint8Array => {
+  const length: number[] = [];
+  if (value.length < 0x80) {
+    length.push(value.length);
+  } else {
+    for (let remaining = value.length; remaining > 0; remaining >>= 8) {
+      length.unshift(remaining & 0xff);
+    }
+    length.unshift(0x80 | length.length);
+  }
+  return new Uint8Array([tag, ...length, ...Array.from(value)]);
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
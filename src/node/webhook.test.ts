@@ -0,0 +1,383 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { WebhookPayload } from "../webhook-types.js";
+import {
+  MemoryWebhookDeliveryStore,
+  type WebhookDeliveryStore,
+} from "./delivery-store.js";
+import {
+  createFetchWebhookHandler,
+  signWebhookPayload,
+  verifyWebhook,
+  WebhookVerificationError,
+} from "./webhook.js";
+
+const API_KEY = "api-key";
+const SECRET_KEY = "secret-key";
+const NOW_SECONDS = 1_700_000_000;
+
+const options = {
+  apiKey: API_KEY,
+  secretKey: SECRET_KEY,
+  now: () => NOW_SECONDS * 1000,
+};
+
+const createPayload = (
+  overrides: Partial<WebhookPayload> = {}
+): WebhookPayload => ({
+  task_id: 1,
+  reward_type: "GTCPoints",
+  reward_amount: "100",
+  point_name: "XP",
+  user_id: 42,
+  email: "user@example.com",
+  evm_address: [],
+  timestamp: NOW_SECONDS,
+  ...overrides,
+});
+
+const sign = (payload: WebhookPayload) =>
+  signWebhookPayload(payload, SECRET_KEY);
+
+const expectRejection = (
+  verify: () => unknown,
+  code: WebhookVerificationError["code"]
+) => {
+  expect(verify).toThrow(expect.objectContaining({ code }));
+};
+
+describe("verifyWebhook", () => {
+  it("accepts a valid delivery", () => {
+    const payload = createPayload();
+
+    const verified = verifyWebhook(
+      JSON.stringify(payload),
+      { apiKey: API_KEY, signature: sign(payload) },
+      options
+    );
+
+    expect(verified).toEqual(payload);
+  });
+
+  it("accepts an upper case signature and a Buffer body", () => {
+    const payload = createPayload();
+
+    const verified = verifyWebhook(
+      Buffer.from(JSON.stringify(payload)),
+      { apiKey: API_KEY, signature: sign(payload).toUpperCase() },
+      options
+    );
+
+    expect(verified.user_id).toBe(42);
+  });
+
+  it("rejects a wrong or missing API key", () => {
+    const payload = createPayload();
+    const signature = sign(payload);
+
+    expectRejection(
+      () => verifyWebhook(payload, { apiKey: "other", signature }, options),
+      "invalid_api_key"
+    );
+    expectRejection(
+      () => verifyWebhook(payload, { signature }, options),
+      "invalid_api_key"
+    );
+  });
+
+  it("rejects a missing signature header", () => {
+    expectRejection(
+      () =>
+        verifyWebhook(
+          createPayload(),
+          { apiKey: API_KEY, signature: null },
+          options
+        ),
+      "missing_signature"
+    );
+  });
+
+  it("rejects tampered signed fields", () => {
+    const signature = sign(createPayload());
+
+    expectRejection(
+      () =>
+        verifyWebhook(
+          createPayload({ user_id: 43 }),
+          { apiKey: API_KEY, signature },
+          options
+        ),
+      "invalid_signature"
+    );
+    expectRejection(
+      () =>
+        verifyWebhook(
+          createPayload({ timestamp: NOW_SECONDS + 1 }),
+          { apiKey: API_KEY, signature },
+          options
+        ),
+      "invalid_signature"
+    );
+  });
+
+  it("rejects a signature made with another secret or malformed", () => {
+    const payload = createPayload();
+
+    expectRejection(
+      () =>
+        verifyWebhook(
+          payload,
+          {
+            apiKey: API_KEY,
+            signature: signWebhookPayload(payload, "other-secret"),
+          },
+          options
+        ),
+      "invalid_signature"
+    );
+    expectRejection(
+      () =>
+        verifyWebhook(payload, { apiKey: API_KEY, signature: "abc" }, options),
+      "invalid_signature"
+    );
+  });
+
+  it("rejects timestamps outside the tolerance", () => {
+    const payload = createPayload({ timestamp: NOW_SECONDS - 301 });
+    const headers = { apiKey: API_KEY, signature: sign(payload) };
+
+    expectRejection(
+      () => verifyWebhook(payload, headers, options),
+      "stale_timestamp"
+    );
+    expect(
+      verifyWebhook(payload, headers, { ...options, toleranceSeconds: 0 })
+    ).toEqual(payload);
+  });
+
+  it("rejects malformed bodies", () => {
+    const headers = { apiKey: API_KEY, signature: "abc" };
+
+    expectRejection(
+      () => verifyWebhook("{not json", headers, options),
+      "invalid_payload"
+    );
+    expectRejection(
+      () => verifyWebhook(JSON.stringify({ task_id: 1 }), headers, options),
+      "invalid_payload"
+    );
+  });
+});
+
+describe("createFetchWebhookHandler", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const send = (
+    handler: (request: Request) => Promise<Response>,
+    body: string,
+    headers: Record<string, string>
+  ) =>
+    handler(
+      new Request("https://example.com/webhook", {
+        method: "POST",
+        body,
+        headers,
+      })
+    );
+
+  const deliver = (
+    handler: (request: Request) => Promise<Response>,
+    payload: WebhookPayload,
+    signature = sign(payload)
+  ) =>
+    send(handler, JSON.stringify(payload), {
+      "X-API-Key": API_KEY,
+      "X-Signature": signature,
+    });
+
+  it("responds 200 and calls onWebhook for a valid delivery", async () => {
+    const onWebhook = vi.fn();
+    const handler = createFetchWebhookHandler({ ...options, onWebhook });
+    const payload = createPayload();
+
+    const response = await deliver(handler, payload);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ result: true, error: null });
+    expect(onWebhook).toHaveBeenCalledWith(payload);
+  });
+
+  it("responds 401 to bad credentials without calling onWebhook", async () => {
+    const onWebhook = vi.fn();
+    const handler = createFetchWebhookHandler({ ...options, onWebhook });
+    const payload = createPayload();
+
+    const tampered = await deliver(
+      handler,
+      createPayload({ user_id: 7 }),
+      sign(payload)
+    );
+    const expired = await deliver(
+      handler,
+      createPayload({ timestamp: NOW_SECONDS - 3600 })
+    );
+    const unsigned = await send(handler, JSON.stringify(payload), {
+      "X-API-Key": API_KEY,
+    });
+
+    expect([tampered.status, expired.status, unsigned.status]).toEqual([
+      401, 401, 401,
+    ]);
+    expect((await tampered.json()).result).toBe(false);
+    expect(onWebhook).not.toHaveBeenCalled();
+  });
+
+  it("responds 400 to a malformed body", async () => {
+    const handler = createFetchWebhookHandler({
+      ...options,
+      onWebhook: vi.fn(),
+    });
+
+    const response = await send(handler, "{not json", {
+      "X-API-Key": API_KEY,
+      "X-Signature": "abc",
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("responds 500 when onWebhook throws, so TaskOn retries", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const handler = createFetchWebhookHandler({
+      ...options,
+      onWebhook: () => {
+        throw new Error("Database unavailable");
+      },
+    });
+
+    const response = await deliver(handler, createPayload());
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({
+      result: false,
+      error: "Database unavailable",
+    });
+  });
+
+  describe("with idempotency", () => {
+    it("acknowledges duplicates without calling onWebhook again", async () => {
+      const onWebhook = vi.fn();
+      const store = new MemoryWebhookDeliveryStore();
+      const handler = createFetchWebhookHandler({
+        ...options,
+        idempotency: { store },
+        onWebhook,
+      });
+      const payload = createPayload();
+
+      const first = await deliver(handler, payload);
+      const retry = await deliver(handler, payload);
+
+      expect([first.status, retry.status]).toEqual([200, 200]);
+      expect(await retry.json()).toEqual({ result: true, error: null });
+      expect(onWebhook).toHaveBeenCalledTimes(1);
+    });
+
+    it("responds 409 to a delivery being processed", async () => {
+      const onWebhook = vi.fn();
+      const store = new MemoryWebhookDeliveryStore();
+      const handler = createFetchWebhookHandler({
+        ...options,
+        idempotency: { store },
+        onWebhook,
+      });
+      const payload = createPayload();
+      await store.claim(`1:42:GTCPoints:XP:${NOW_SECONDS}`, 60 * 1000);
+
+      const response = await deliver(handler, payload);
+
+      expect(response.status).toBe(409);
+      expect(await response.json()).toEqual({
+        result: false,
+        error: "Delivery is already being processed",
+      });
+      expect(onWebhook).not.toHaveBeenCalled();
+    });
+
+    it("responds 200 when onWebhook ran but the delivery was not recorded", async () => {
+      const error = vi.spyOn(console, "error").mockImplementation(() => {});
+      const reason = new Error("Disk full");
+      const store: WebhookDeliveryStore = {
+        claim: async () => "claimed",
+        complete: async () => {
+          throw reason;
+        },
+        release: vi.fn(),
+      };
+      const onWebhook = vi.fn();
+      const handler = createFetchWebhookHandler({
+        ...options,
+        idempotency: { store },
+        onWebhook,
+      });
+
+      const response = await deliver(handler, createPayload());
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ result: true, error: null });
+      expect(onWebhook).toHaveBeenCalledTimes(1);
+      expect(error).toHaveBeenCalledWith(
+        "Failed to record webhook delivery:",
+        reason
+      );
+    });
+
+    it("accepts retries sent after the default tolerance of 5 minutes", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      const onWebhook = vi
+        .fn()
+        .mockRejectedValueOnce(new Error("Database unavailable"))
+        .mockResolvedValueOnce(undefined);
+      const store = new MemoryWebhookDeliveryStore();
+      const payload = createPayload();
+      const handlerAt = (nowSeconds: number) =>
+        createFetchWebhookHandler({
+          ...options,
+          now: () => nowSeconds * 1000,
+          idempotency: { store },
+          onWebhook,
+        });
+
+      const failed = await deliver(handlerAt(NOW_SECONDS), payload);
+      const retry = await deliver(handlerAt(NOW_SECONDS + 3600), payload);
+      const duplicate = await deliver(handlerAt(NOW_SECONDS + 7200), payload);
+      const expired = await deliver(
+        handlerAt(NOW_SECONDS + 24 * 3600 + 1),
+        payload
+      );
+
+      expect([failed.status, retry.status, duplicate.status]).toEqual([
+        500, 200, 200,
+      ]);
+      expect(expired.status).toBe(401);
+      expect(onWebhook).toHaveBeenCalledTimes(2);
+    });
+
+    it("keeps an explicit tolerance", async () => {
+      const handler = createFetchWebhookHandler({
+        ...options,
+        toleranceSeconds: 60,
+        idempotency: { store: new MemoryWebhookDeliveryStore() },
+        onWebhook: vi.fn(),
+      });
+
+      const response = await deliver(
+        handler,
+        createPayload({ timestamp: NOW_SECONDS - 61 })
+      );
+
+      expect(response.status).toBe(401);
+    });
+  });
+});
@@ -0,0 +1,402 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { IncomingMessage, ServerResponse } from "http";
+import type { WebhookPayload } from "../webhook-types.js";
+import {
+  ExpressLikeRequest,
+  ExpressLikeResponse,
+  getExpressBody,
+  getHeader,
+  readBody,
+} from "./http.js";
+import {
+  processWebhookOnce,
+  WebhookCompletionError,
+  WebhookIdempotencyOptions,
+} from "./idempotency.js";
+
+/** Default maximum age (in seconds) of a webhook `timestamp` */
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+/**
+ * Default maximum age (in seconds) of a webhook `timestamp` when the handler
+ * deduplicates deliveries. Retries resend the original signed timestamp, so
+ * they must pass verification to reach the delivery store
+ */
+const DEFAULT_IDEMPOTENT_TOLERANCE_SECONDS = 24 * 60 * 60;
+
+/**
+ * Reason a webhook request was rejected
+ */
+export type WebhookVerificationErrorCode =
+  | "invalid_api_key"
+  | "missing_signature"
+  | "invalid_signature"
+  | "invalid_payload"
+  | "stale_timestamp";
+
+/**
+ * Error thrown when a webhook request fails verification
+ */
+export class WebhookVerificationError extends Error {
+  /** Machine readable rejection reason */
+  public readonly code: WebhookVerificationErrorCode;
+  /** HTTP status code the handlers respond with */
+  public readonly status: number;
+
+  constructor(code: WebhookVerificationErrorCode, message: string) {
+    super(message);
+    this.name = "WebhookVerificationError";
+    this.code = code;
+    this.status = code === "invalid_payload" ? 400 : 401;
+  }
+}
+
+/**
+ * Options for webhook verification
+ */
+export interface VerifyWebhookOptions {
+  /** API key TaskOn sends in the `X-API-Key` header */
+  apiKey: string;
+  /** Secret key used to compute the HMAC-SHA256 `X-Signature` */
+  secretKey: string;
+  /**
+   * Maximum allowed difference (in seconds) between the payload `timestamp`
+   * and the current time (default: 300). Set to 0 to disable the check.
+   */
+  toleranceSeconds?: number;
+  /** Current time in milliseconds, mainly for testing (default: Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Authentication headers of a webhook request
+ */
+export interface WebhookHeaders {
+  /** Value of the `X-API-Key` header */
+  apiKey?: string | null;
+  /** Value of the `X-Signature` header */
+  signature?: string | null;
+}
+
+/**
+ * Options for the ready-made webhook handlers
+ */
+export interface WebhookHandlerOptions extends VerifyWebhookOptions {
+  /**
+   * Called with the verified payload. Throwing makes the handler respond with
+   * status 500 so that TaskOn retries the delivery.
+   */
+  onWebhook: (payload: WebhookPayload) => void | Promise<void>;
+  /**
+   * Deduplicate retried deliveries so that `onWebhook` runs once per delivery.
+   * Duplicates are acknowledged with status 200, deliveries currently being
+   * processed by another request get status 409 so that TaskOn retries them.
+   *
+   * Retries keep the timestamp of the first attempt, so `toleranceSeconds`
+   * defaults to 86400 (24 hours) instead of 300 with this option. The store
+   * must remember processed deliveries for at least `toleranceSeconds`.
+   */
+  idempotency?: WebhookIdempotencyOptions;
+}
+
+/**
+ * Response body expected by TaskOn
+ */
+export interface WebhookResponseBody {
+  result: boolean;
+  error: string | null;
+}
+
+/**
+ * Build the canonical string TaskOn signs: a JSON object with `timestamp` and
+ * `user_id`, keys sorted alphabetically and without whitespace.
+ */
+export const getWebhookSigningPayload = (
+  payload: Pick<WebhookPayload, "user_id" | "timestamp">
+): string => {
+  return `{"timestamp":${JSON.stringify(payload.timestamp)},"user_id":${JSON.stringify(payload.user_id)}}`;
+};
+
+/**
+ * Compute the hex encoded HMAC-SHA256 signature of a webhook payload
+ */
+export const signWebhookPayload = (
+  payload: Pick<WebhookPayload, "user_id" | "timestamp">,
+  secretKey: string
+): string => {
+  return createHmac("sha256", secretKey)
+    .update(getWebhookSigningPayload(payload))
+    .digest("hex");
+};
+
+/**
+ * Verify a TaskOn reward webhook request
+ *
+ * Checks the API key and HMAC signature in constant time and rejects payloads
+ * whose `timestamp` is outside the allowed tolerance.
+ *
+ * @param body - Raw request body or an already parsed payload
+ * @param headers - Authentication headers of the request
+ * @param options - Verification options
+ * @returns The verified webhook payload
+ * @throws {WebhookVerificationError} If verification fails
+ *
+ * @example
+ * ```typescript
+ * const payload = verifyWebhook(rawBody, {
+ *   apiKey: req.headers["x-api-key"],
+ *   signature: req.headers["x-signature"],
+ * }, {
+ *   apiKey: process.env.TASKON_WEBHOOK_API_KEY!,
+ *   secretKey: process.env.TASKON_WEBHOOK_SECRET!,
+ * });
+ * ```
+ */
+export const verifyWebhook = (
+  body: string | Buffer | WebhookPayload,
+  headers: WebhookHeaders,
+  options: VerifyWebhookOptions
+): WebhookPayload => {
+  if (!headers.apiKey || !safeEqual(headers.apiKey, options.apiKey)) {
+    throw new WebhookVerificationError("invalid_api_key", "Invalid API key");
+  }
+  if (!headers.signature) {
+    throw new WebhookVerificationError(
+      "missing_signature",
+      "Missing signature"
+    );
+  }
+
+  const payload = parsePayload(body);
+  const expectedSignature = signWebhookPayload(payload, options.secretKey);
+  if (!safeEqual(headers.signature.toLowerCase(), expectedSignature)) {
+    throw new WebhookVerificationError(
+      "invalid_signature",
+      "Invalid signature"
+    );
+  }
+
+  const tolerance = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  if (tolerance > 0) {
+    const nowSeconds = Math.floor((options.now ?? Date.now)() / 1000);
+    if (Math.abs(nowSeconds - payload.timestamp) > tolerance) {
+      throw new WebhookVerificationError(
+        "stale_timestamp",
+        "Webhook timestamp is outside the allowed tolerance"
+      );
+    }
+  }
+
+  return payload;
+};
+
+/**
+ * Create a webhook handler for the Node.js `http` module
+ *
+ * @example
+ * ```typescript
+ * import { createServer } from "http";
+ *
+ * const handler = createWebhookHandler({
+ *   apiKey: process.env.TASKON_WEBHOOK_API_KEY!,
+ *   secretKey: process.env.TASKON_WEBHOOK_SECRET!,
+ *   onWebhook: async payload => {
+ *     await grantReward(payload);
+ *   },
+ * });
+ *
+ * createServer(handler).listen(3000);
+ * ```
+ */
+export const createWebhookHandler = (
+  options: WebhookHandlerOptions
+): ((req: IncomingMessage, res: ServerResponse) => Promise<void>) => {
+  return async (req, res) => {
+    const { status, body } = await handleWebhook(
+      await readBody(req),
+      getNodeHeaders(req),
+      options
+    );
+    res.statusCode = status;
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify(body));
+  };
+};
+
+/**
+ * Create a webhook handler for Express style frameworks
+ *
+ * Works with or without a body parsing middleware in front of it.
+ *
+ * @example
+ * ```typescript
+ * app.post(
+ *   "/webhook/reward-notification",
+ *   express.json(),
+ *   createExpressWebhookHandler({
+ *     apiKey: process.env.TASKON_WEBHOOK_API_KEY!,
+ *     secretKey: process.env.TASKON_WEBHOOK_SECRET!,
+ *     onWebhook: payload => grantReward(payload),
+ *   })
+ * );
+ * ```
+ */
+export const createExpressWebhookHandler = (
+  options: WebhookHandlerOptions
+): ((req: ExpressLikeRequest, res: ExpressLikeResponse) => Promise<void>) => {
+  return async (req, res) => {
+    const body = (await getExpressBody(req)) as
+      | string
+      | Buffer
+      | WebhookPayload;
+    const result = await handleWebhook(body, getNodeHeaders(req), options);
+    res.status(result.status).json(result.body);
+  };
+};
+
+/**
+ * Create a webhook handler for Fetch API runtimes (edge functions, Deno,
+ * Bun, Next.js route handlers, ...)
+ *
+ * @example
+ * ```typescript
+ * // app/api/webhook/route.ts
+ * export const POST = createFetchWebhookHandler({
+ *   apiKey: process.env.TASKON_WEBHOOK_API_KEY!,
+ *   secretKey: process.env.TASKON_WEBHOOK_SECRET!,
+ *   onWebhook: payload => grantReward(payload),
+ * });
+ * ```
+ */
+export const createFetchWebhookHandler = (
+  options: WebhookHandlerOptions
+): ((request: Request) => Promise<Response>) => {
+  return async request => {
+    const { status, body } = await handleWebhook(
+      await request.text(),
+      {
+        apiKey: request.headers.get("x-api-key"),
+        signature: request.headers.get("x-signature"),
+      },
+      options
+    );
+    return new Response(JSON.stringify(body), {
+      status,
+      headers: { "Content-Type": "application/json" },
+    });
+  };
+};
+
+/**
+ * Verify a webhook and run the handler, mapping the outcome to a response
+ */
+const handleWebhook = async (
+  body: string | Buffer | WebhookPayload,
+  headers: WebhookHeaders,
+  options: WebhookHandlerOptions
+): Promise<{ status: number; body: WebhookResponseBody }> => {
+  let payload: WebhookPayload;
+  try {
+    payload = verifyWebhook(body, headers, {
+      ...options,
+      toleranceSeconds:
+        options.toleranceSeconds ??
+        (options.idempotency
+          ? DEFAULT_IDEMPOTENT_TOLERANCE_SECONDS
+          : DEFAULT_TOLERANCE_SECONDS),
+    });
+  } catch (error) {
+    if (error instanceof WebhookVerificationError) {
+      return {
+        status: error.status,
+        body: { result: false, error: error.message },
+      };
+    }
+    throw error;
+  }
+
+  try {
+    if (options.idempotency) {
+      const result = await processWebhookOnce(
+        payload,
+        options.onWebhook,
+        options.idempotency
+      );
+      if (result === "in_progress") {
+        return {
+          status: 409,
+          body: { result: false, error: "Delivery is already being processed" },
+        };
+      }
+    } else {
+      await options.onWebhook(payload);
+    }
+  } catch (error) {
+    if (error instanceof WebhookCompletionError) {
+      // onWebhook succeeded, acknowledge so TaskOn does not retry it
+      console.error("Failed to record webhook delivery:", error.reason);
+      return { status: 200, body: { result: true, error: null } };
+    }
+    console.error("Webhook processing error:", error);
+    return {
+      status: 500,
+      body: {
+        result: false,
+        error: error instanceof Error ? error.message : String(error),
+      },
+    };
+  }
+
+  return { status: 200, body: { result: true, error: null } };
+};
+
+/**
+ * Parse and validate the webhook body
+ */
+const parsePayload = (
+  body: string | Buffer | WebhookPayload
+): WebhookPayload => {
+  let payload: unknown = body;
+  if (typeof body === "string" || Buffer.isBuffer(body)) {
+    try {
+      payload = JSON.parse(body.toString());
+    } catch {
+      throw new WebhookVerificationError("invalid_payload", "Invalid JSON");
+    }
+  }
+
+  if (
+    !payload ||
+    typeof payload !== "object" ||
+    typeof (payload as WebhookPayload).timestamp !== "number" ||
+    (payload as WebhookPayload).user_id === undefined
+  ) {
+    throw new WebhookVerificationError("invalid_payload", "Invalid payload");
+  }
+
+  return payload as WebhookPayload;
+};
+
+/**
+ * Compare two strings in constant time
+ */
+const safeEqual = (a: string, b: string): boolean => {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  if (bufferA.length !== bufferB.length) {
+    // Still compare to keep timing independent of where the strings differ
+    timingSafeEqual(bufferB, bufferB);
+    return false;
+  }
+  return timingSafeEqual(bufferA, bufferB);
+};
+
+/**
+ * Read authentication headers from a Node.js request
+ */
+const getNodeHeaders = (req: IncomingMessage): WebhookHeaders => {
+  return {
+    apiKey: getHeader(req, "x-api-key"),
+    signature: getHeader(req, "x-signature"),
+  };
+};
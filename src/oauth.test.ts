@@ -0,0 +1,82 @@
+// @vitest-environment happy-dom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const HOST_URL = `${window.location.origin}/page?tab=quests`;
+
+/** Load a fresh module, without the return consumed by a previous test */
+const loadOAuth = async () => {
+  vi.resetModules();
+  return import("./oauth");
+};
+
+describe("OAuth redirect return", () => {
+  beforeEach(() => {
+    history.replaceState(null, "", HOST_URL);
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  /** Start a flow from the host page and come back with the OAuth response */
+  const returnFromOAuth = async (instanceId?: string) => {
+    const oauth = await loadOAuth();
+    const returnUrl = new URL(oauth.createOAuthReturnUrl(instanceId));
+    returnUrl.searchParams.set("code", "oauth-code");
+    history.replaceState(null, "", returnUrl.toString());
+    return oauth;
+  };
+
+  it("tags the return URL with the instance", async () => {
+    const oauth = await loadOAuth();
+
+    const returnUrl = new URL(oauth.createOAuthReturnUrl("board"));
+
+    expect(returnUrl.searchParams.get(oauth.OAUTH_INSTANCE_PARAM)).toBe(
+      "board"
+    );
+    expect(localStorage.getItem("taskon_oauth_from.board")).toBe(HOST_URL);
+  });
+
+  it("removes the instance parameter and the saved host URL", async () => {
+    const oauth = await returnFromOAuth("board");
+
+    oauth.consumeOAuthReturn();
+
+    expect(window.location.href).toBe(`${HOST_URL}&code=oauth-code`);
+    expect(localStorage.getItem("taskon_oauth_from.board")).toBeNull();
+  });
+
+  it("gives the OAuth response to the instance that started the flow only", async () => {
+    const oauth = await returnFromOAuth("board");
+
+    expect(oauth.getHostUrlForInstance("board")).toBe(
+      `${HOST_URL}&code=oauth-code`
+    );
+    expect(oauth.getHostUrlForInstance("quests")).toBe(HOST_URL);
+    expect(oauth.getHostUrlForInstance()).toBe(HOST_URL);
+    expect(oauth.getHostUrlForInstance("board")).toBe(
+      `${HOST_URL}&code=oauth-code`
+    );
+  });
+
+  it("handles an instance without id", async () => {
+    const oauth = await returnFromOAuth();
+
+    expect(oauth.getHostUrlForInstance("board")).toBe(HOST_URL);
+    expect(oauth.getHostUrlForInstance()).toBe(`${HOST_URL}&code=oauth-code`);
+    expect(localStorage.getItem("taskon_oauth_from")).toBeNull();
+  });
+
+  it("forgets the return once the host page navigates", async () => {
+    const oauth = await returnFromOAuth("board");
+    oauth.consumeOAuthReturn();
+
+    history.pushState(null, "", "/other");
+
+    expect(oauth.getHostUrlForInstance("quests")).toBe(
+      `${window.location.origin}/other`
+    );
+  });
+});
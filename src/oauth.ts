@@ -0,0 +1,333 @@
+import { namespaced } from "./instance";
+import type { SnsType } from "./types";
+
+/** TaskOn OAuth center */
+export const DEFAULT_OAUTH_BASE_URL = "https://generalauthservice.com";
+
+/** TaskOn OAuth center (staging) */
+export const DEFAULT_OAUTH_STAGE_BASE_URL =
+  "https://stage.generalauthservice.com";
+
+/** Default OAuth paths of the built-in providers */
+export const DEFAULT_OAUTH_PATHS: Partial<Record<SnsType, string>> = {
+  twitter: "/twitter",
+  discord: "/discord",
+  telegram: "/telegram",
+  reddit: "/reddit",
+};
+
+/** Window name of OAuth popups opened by the SDK */
+export const OAUTH_POPUP_NAME = "taskon_oauth";
+
+/** Message type posted by the OAuth popup to its opener */
+const OAUTH_CALLBACK_MESSAGE = "taskon:oauth-callback";
+
+/** BroadcastChannel of OAuth popups that lost their opener */
+const OAUTH_CHANNEL = "taskon_oauth";
+
+/**
+ * Query parameter of the URL an OAuth popup returns to, identifying the flow
+ * when the popup lost its opener and window name
+ */
+export const OAUTH_FLOW_PARAM = "taskon_oauth_flow";
+
+/** localStorage key marking an OAuth popup flow as pending */
+const OAUTH_FLOW_KEY = "taskon_oauth_flow";
+
+/**
+ * Query parameter of the URL an OAuth redirect returns to, naming the embed
+ * instance that started the flow ('' for an instance without id)
+ */
+export const OAUTH_INSTANCE_PARAM = "taskon_oauth_instance";
+
+/** localStorage key of the host URL before an OAuth redirect */
+const OAUTH_FROM_KEY = "taskon_oauth_from";
+
+/**
+ * Build the URL an OAuth redirect returns to: the current host URL, tagged
+ * with the instance that started the flow. The URL before the redirect is
+ * saved for the other instances of the page, see getHostUrlForInstance
+ *
+ * @param instanceId - Instance id from the embed configuration
+ * @param returnUrl - URL to tag instead of the current host URL
+ */
+export function createOAuthReturnUrl(
+  instanceId?: string,
+  returnUrl: string = window.location.href
+): string {
+  const from = new URL(window.location.href);
+  from.searchParams.delete(OAUTH_INSTANCE_PARAM);
+  localStorage.setItem(namespaced(OAUTH_FROM_KEY, instanceId), from.toString());
+  const url = new URL(returnUrl, window.location.href);
+  url.searchParams.set(OAUTH_INSTANCE_PARAM, instanceId ?? "");
+  return url.toString();
+}
+
+/**
+ * OAuth redirect return of the current page load, see consumeOAuthReturn
+ * - owner: instance that started the flow
+ * - url: host URL without the instance parameter
+ * - from: host URL before the redirect
+ */
+let oauthReturn: { owner: string; url: string; from: string | null } | null =
+  null;
+
+/**
+ * Take the OAuth redirect return out of the host page: the instance parameter
+ * is removed from the URL with history.replaceState and the host URL saved
+ * before the redirect from localStorage. Both are kept for
+ * getHostUrlForInstance until the host page navigates
+ */
+export function consumeOAuthReturn(): void {
+  const url = new URL(window.location.href);
+  const owner = url.searchParams.get(OAUTH_INSTANCE_PARAM);
+  if (owner === null) {
+    return;
+  }
+  url.searchParams.delete(OAUTH_INSTANCE_PARAM);
+  const fromKey = namespaced(OAUTH_FROM_KEY, owner || undefined);
+  oauthReturn = {
+    owner,
+    url: url.toString(),
+    from: localStorage.getItem(fromKey),
+  };
+  localStorage.removeItem(fromKey);
+  history.replaceState(history.state, "", oauthReturn.url);
+}
+
+/**
+ * Host URL as seen by an embed instance. After an OAuth redirect, only the
+ * instance that started the flow gets the OAuth response parameters; the
+ * other instances get the URL from before the redirect
+ *
+ * @param instanceId - Instance id from the embed configuration
+ */
+export function getHostUrlForInstance(instanceId?: string): string {
+  consumeOAuthReturn();
+  if (!oauthReturn || oauthReturn.url !== window.location.href) {
+    return window.location.href;
+  }
+  if (oauthReturn.owner === (instanceId ?? "")) {
+    return oauthReturn.url;
+  }
+  const url = new URL(oauthReturn.url);
+  return oauthReturn.from ?? url.origin + url.pathname + url.hash;
+}
+
+/**
+ * Create the id of an OAuth popup flow, see openOAuthPopup
+ */
+export function createOAuthFlowId(): string {
+  return Math.random().toString(36).slice(2) + Date.now().toString(36);
+}
+
+/**
+ * Build the URL an OAuth popup returns to, tagged with the flow id
+ *
+ * @param callbackUrl - Callback page URL
+ * @param flowId - Flow id from createOAuthFlowId
+ */
+export function createOAuthPopupReturnUrl(
+  callbackUrl: string,
+  flowId: string
+): string {
+  const url = new URL(callbackUrl, window.location.href);
+  url.searchParams.set(OAUTH_FLOW_PARAM, flowId);
+  return url.toString();
+}
+
+/**
+ * Outcome of an OAuth popup
+ * - success: the popup returned to the callback URL
+ * - blocked: the browser blocked the popup
+ * - closed: the user closed the popup before completing the flow
+ */
+export type OAuthPopupOutcome =
+  | { status: "success"; callbackUrl: string }
+  | { status: "blocked" }
+  | { status: "closed" };
+
+/**
+ * Options for openOAuthPopup
+ */
+export interface OAuthPopupOptions {
+  /** Origins allowed to post the completion message (default: current origin) */
+  allowedOrigins?: string[];
+  /** Popup width in pixels (default: 600) */
+  width?: number;
+  /** Popup height in pixels (default: 700) */
+  height?: number;
+  /**
+   * Embed instance id. Each instance opens its own popup window, so the
+   * result goes to the instance that started the flow
+   */
+  instanceId?: string;
+  /**
+   * Flow id the return URL is tagged with, see createOAuthPopupReturnUrl.
+   * Receives the result over a BroadcastChannel when the popup lost its
+   * opener, e.g. because the OAuth page sets Cross-Origin-Opener-Policy
+   */
+  flowId?: string;
+}
+
+/**
+ * Open an OAuth page in a popup window and wait until it completes or closes
+ *
+ * An OAuth page with a Cross-Origin-Opener-Policy cuts the popup off from
+ * this window: the popup loses `window.opener` and its name, and reports
+ * `closed` here while still open. With a `flowId` the result still arrives
+ * over a BroadcastChannel, and the popup only counts as closed once this
+ * window has the focus back.
+ *
+ * @param url - OAuth page URL
+ * @param options - Popup options
+ * @returns The popup outcome
+ */
+export function openOAuthPopup(
+  url: string,
+  options: OAuthPopupOptions = {}
+): Promise<OAuthPopupOutcome> {
+  const { flowId } = options;
+  const name = namespaced(OAUTH_POPUP_NAME, options.instanceId);
+  const width = options.width ?? 600;
+  const height = options.height ?? 700;
+  const left = window.screenX + (window.outerWidth - width) / 2;
+  const top = window.screenY + (window.outerHeight - height) / 2;
+  const flowKey = flowId ? namespaced(OAUTH_FLOW_KEY, flowId) : null;
+  if (flowKey) {
+    localStorage.setItem(flowKey, String(Date.now()));
+  }
+  const popup = window.open(
+    url,
+    name,
+    `width=${width},height=${height},left=${left},top=${top},popup=yes`
+  );
+  if (!popup) {
+    if (flowKey) {
+      localStorage.removeItem(flowKey);
+    }
+    return Promise.resolve({ status: "blocked" });
+  }
+  popup.focus();
+
+  const allowedOrigins = options.allowedOrigins ?? [window.location.origin];
+  const channel =
+    flowId && typeof BroadcastChannel !== "undefined"
+      ? new BroadcastChannel(OAUTH_CHANNEL)
+      : null;
+  return new Promise(resolve => {
+    const cleanup = () => {
+      window.removeEventListener("message", onMessage);
+      clearInterval(closedWatcher);
+      channel?.close();
+      if (flowKey) {
+        localStorage.removeItem(flowKey);
+      }
+    };
+    const complete = (callbackUrl: string) => {
+      cleanup();
+      popup.close();
+      resolve({ status: "success", callbackUrl });
+    };
+    const onMessage = (event: MessageEvent) => {
+      if (
+        event.source !== popup ||
+        !allowedOrigins.includes(event.origin) ||
+        event.data?.type !== OAUTH_CALLBACK_MESSAGE
+      ) {
+        return;
+      }
+      complete(String(event.data.url));
+    };
+    if (channel) {
+      channel.onmessage = event => {
+        if (
+          event.data?.type === OAUTH_CALLBACK_MESSAGE &&
+          event.data.flowId === flowId
+        ) {
+          complete(String(event.data.url));
+        }
+      };
+    }
+    // There is no close event for other windows, poll instead. A popup cut
+    // off by COOP reports closed too, so wait until this window has the focus
+    // back, and one more round for a result still on its way
+    let closedChecks = 0;
+    const closedWatcher = setInterval(() => {
+      const closed = popup.closed && (!channel || document.hasFocus());
+      closedChecks = closed ? closedChecks + 1 : 0;
+      if (closedChecks >= (channel ? 2 : 1)) {
+        cleanup();
+        resolve({ status: "closed" });
+      }
+    }, 500);
+    window.addEventListener("message", onMessage);
+  });
+}
+
+/**
+ * Check whether the current window is an OAuth popup opened by the SDK: by
+ * its name and opener, or by the flow id of its URL when COOP removed both
+ */
+export function isOAuthPopup(): boolean {
+  if (typeof window === "undefined") {
+    return false;
+  }
+  if (
+    (window.name === OAUTH_POPUP_NAME ||
+      window.name.startsWith(`${OAUTH_POPUP_NAME}.`)) &&
+    !!window.opener
+  ) {
+    return true;
+  }
+  const flowId = getPopupFlowId();
+  return !!flowId && !!localStorage.getItem(namespaced(OAUTH_FLOW_KEY, flowId));
+}
+
+/**
+ * Complete the OAuth flow when running inside the OAuth popup: pass the
+ * callback URL to the opener window and close the popup. A popup that lost
+ * its opener to COOP reports over a BroadcastChannel instead.
+ *
+ * Called automatically by `TaskOnEmbed.init()`. Call it yourself on a
+ * dedicated callback page that doesn't initialize the embed.
+ *
+ * @returns true if the current window was an OAuth popup
+ *
+ * @example
+ * ```typescript
+ * // oauth-callback.html
+ * import { handleOAuthPopupCallback } from '@taskon/embed';
+ *
+ * handleOAuthPopupCallback();
+ * ```
+ */
+export function handleOAuthPopupCallback(): boolean {
+  if (!isOAuthPopup()) {
+    return false;
+  }
+  const flowId = getPopupFlowId();
+  const url = new URL(window.location.href);
+  url.searchParams.delete(OAUTH_FLOW_PARAM);
+  const message = {
+    type: OAUTH_CALLBACK_MESSAGE,
+    url: url.toString(),
+    flowId,
+  };
+  if (window.opener) {
+    window.opener.postMessage(message, window.location.origin);
+  } else if (typeof BroadcastChannel !== "undefined") {
+    const channel = new BroadcastChannel(OAUTH_CHANNEL);
+    channel.postMessage(message);
+    channel.close();
+  }
+  window.close();
+  return true;
+}
+
+/**
+ * Flow id the current URL is tagged with, see createOAuthPopupReturnUrl
+ */
+function getPopupFlowId(): string | null {
+  return new URL(window.location.href).searchParams.get(OAUTH_FLOW_PARAM);
+}
@@ -0,0 +1,7 @@
+export { TaskOnEmbed } from "./taskon-embed.js";
+export type { TaskOnEmbedHandle, TaskOnEmbedProps } from "./taskon-embed.js";
+export { useTaskOnEmbed } from "./use-taskon-embed.js";
+export type {
+  UseTaskOnEmbedOptions,
+  UseTaskOnEmbedResult,
+} from "./use-taskon-embed.js";
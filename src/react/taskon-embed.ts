@@ -0,0 +1,74 @@
+"use client";
+
+import {
+  createElement,
+  CSSProperties,
+  forwardRef,
+  useImperativeHandle,
+} from "react";
+import type { TaskOnEmbed as TaskOnEmbedInstance } from "@taskon/embed";
+import {
+  useTaskOnEmbed,
+  UseTaskOnEmbedOptions,
+  UseTaskOnEmbedResult,
+} from "./use-taskon-embed.js";
+
+/**
+ * Props of the TaskOnEmbed component: the embed configuration, event
+ * handlers and the props of the container element
+ */
+export interface TaskOnEmbedProps extends UseTaskOnEmbedOptions {
+  /** Class name of the container element */
+  className?: string;
+  /** Style of the container element, give it a height for inline display */
+  style?: CSSProperties;
+}
+
+/**
+ * Methods of the TaskOnEmbed component, through its `ref`
+ */
+export interface TaskOnEmbedHandle
+  extends Pick<
+    UseTaskOnEmbedResult,
+    "login" | "logout" | "setRoute" | "setLanguage"
+  > {
+  /** Embed instance while mounted, for the other methods and events */
+  embed: TaskOnEmbedInstance | null;
+}
+
+/**
+ * TaskOn embed rendered into a `div`, see useTaskOnEmbed for its lifecycle
+ *
+ * @example
+ * ```tsx
+ * function Quests() {
+ *   const taskon = useRef<TaskOnEmbedHandle>(null);
+ *
+ *   return (
+ *     <TaskOnEmbed
+ *       ref={taskon}
+ *       baseUrl="https://yourtaskondomain.com"
+ *       style={{ height: 600 }}
+ *       onLoginRequired={async () => {
+ *         await taskon.current?.login(await getLoginParams());
+ *       }}
+ *       onTaskCompleted={data => showReward(data)}
+ *     />
+ *   );
+ * }
+ * ```
+ */
+export const TaskOnEmbed = forwardRef<TaskOnEmbedHandle, TaskOnEmbedProps>(
+  function TaskOnEmbed({ className, style, ...options }, ref) {
+    const { containerRef, embed, login, logout, setRoute, setLanguage } =
+      useTaskOnEmbed(options);
+
+    useImperativeHandle(
+      ref,
+      () => ({ embed, login, logout, setRoute, setLanguage }),
+      [embed, login, logout, setRoute, setLanguage]
+    );
+
+    return createElement("div", { ref: containerRef, className, style });
+  }
+);
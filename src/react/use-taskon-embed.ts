@@ -0,0 +1,197 @@
+"use client";
+
+import { RefObject, useCallback, useEffect, useRef, useState } from "react";
+import { TaskOnEmbed, TaskOnNotInitializedError } from "@taskon/embed";
+import type {
+  LoginParams,
+  LogoutOptions,
+  TaskCompletedData,
+  TaskOnEmbedConfig,
+} from "@taskon/embed";
+
+/**
+ * Options of useTaskOnEmbed: the embed configuration without the container
+ * element (see `containerRef`), and event handlers
+ */
+export interface UseTaskOnEmbedOptions
+  extends Omit<TaskOnEmbedConfig, "containerElement"> {
+  /** Called when the iframe requests a login */
+  onLoginRequired?: () => void;
+  /** Called when the iframe route changed */
+  onRouteChanged?: (fullPath: string) => void;
+  /** Called when the user completed a task */
+  onTaskCompleted?: (data: TaskCompletedData) => void;
+}
+
+/**
+ * Embed controls returned by useTaskOnEmbed
+ */
+export interface UseTaskOnEmbedResult {
+  /** Ref of the element the iframe is rendered into, for inline display */
+  containerRef: RefObject<HTMLDivElement | null>;
+  /** Embed instance while mounted, null before and after */
+  embed: TaskOnEmbed | null;
+  /** Current iframe route */
+  currentRoute: string;
+  /** Whether the iframe is connected */
+  isReady: boolean;
+  /** See TaskOnEmbed.login() */
+  login: (request: LoginParams) => Promise<void>;
+  /** See TaskOnEmbed.logout() */
+  logout: (options?: LogoutOptions) => Promise<void>;
+  /** See TaskOnEmbed.setRoute() */
+  setRoute: (fullPath: string) => Promise<void>;
+  /** See TaskOnEmbed.setLanguage() */
+  setLanguage: (language: string) => Promise<void>;
+}
+
+/**
+ * Create a TaskOn embed for the lifetime of a component: it is initialized
+ * on mount and destroyed on unmount. Nothing touches `window` during render,
+ * so the hook is safe for server rendering.
+ *
+ * The embed is created again when `baseUrl` or `id` change. `language` and
+ * `theme` changes are sent to the running embed; the other options are read
+ * when it is created, give the component a new `key` to apply them.
+ *
+ * @param options - Embed configuration and event handlers
+ *
+ * @example
+ * ```tsx
+ * function Quests() {
+ *   const taskon = useTaskOnEmbed({
+ *     baseUrl: 'https://yourtaskondomain.com',
+ *     onLoginRequired: () => openLoginDialog(),
+ *   });
+ *
+ *   return (
+ *     <>
+ *       <p>Current page: {taskon.currentRoute}</p>
+ *       <div ref={taskon.containerRef} style={{ height: 600 }} />
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export function useTaskOnEmbed(
+  options: UseTaskOnEmbedOptions
+): UseTaskOnEmbedResult {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const embedRef = useRef<TaskOnEmbed | null>(null);
+  // Latest options, so handlers can change without recreating the embed
+  const optionsRef = useRef(options);
+  // Language and theme the running embed has
+  const appliedRef = useRef({ language: options.language, theme: "" });
+  const [embed, setEmbed] = useState<TaskOnEmbed | null>(null);
+  const [currentRoute, setCurrentRoute] = useState("");
+  const [isReady, setIsReady] = useState(false);
+
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  const { baseUrl, id, language } = options;
+  const theme = options.theme ? JSON.stringify(options.theme) : "";
+
+  useEffect(() => {
+    const config = optionsRef.current;
+    // The embed ignores the handler props
+    const instance = new TaskOnEmbed({
+      ...config,
+      containerElement: containerRef.current ?? undefined,
+    });
+    instance.on("loginRequired", () => optionsRef.current.onLoginRequired?.());
+    instance.on("routeChanged", fullPath => {
+      setCurrentRoute(fullPath);
+      optionsRef.current.onRouteChanged?.(fullPath);
+    });
+    instance.on("taskCompleted", data =>
+      optionsRef.current.onTaskCompleted?.(data)
+    );
+    instance.on("ready", () => setIsReady(true));
+    instance.on("disconnected", () => setIsReady(false));
+    instance.on("reconnected", () => setIsReady(true));
+
+    appliedRef.current = {
+      language: config.language,
+      theme: config.theme ? JSON.stringify(config.theme) : "",
+    };
+    embedRef.current = instance;
+    setEmbed(instance);
+    instance.init().catch(() => {
+      // Emitted as error event and shown as error fallback
+    });
+
+    // StrictMode mounts twice in development: the first embed is destroyed
+    // before the second one is created in the same container
+    return () => {
+      instance.destroy();
+      instance.removeAllListeners();
+      embedRef.current = null;
+      setEmbed(null);
+      setCurrentRoute("");
+      setIsReady(false);
+    };
+  }, [baseUrl, id]);
+
+  useEffect(() => {
+    const applied = appliedRef.current;
+    if (!embed) return;
+    if (language !== undefined && language !== applied.language) {
+      applied.language = language;
+      embed.setLanguage(language).catch(error => {
+        console.warn("Failed to set TaskOn language:", error);
+      });
+    }
+    const nextTheme = optionsRef.current.theme;
+    if (nextTheme && theme !== applied.theme) {
+      applied.theme = theme;
+      embed.setTheme(nextTheme).catch(error => {
+        console.warn("Failed to set TaskOn theme:", error);
+      });
+    }
+  }, [embed, language, theme]);
+
+  const withEmbed = useCallback(
+    <T>(call: (instance: TaskOnEmbed) => Promise<T>): Promise<T> => {
+      const instance = embedRef.current;
+      if (!instance) {
+        return Promise.reject(
+          new TaskOnNotInitializedError("The TaskOn embed is not mounted")
+        );
+      }
+      return call(instance);
+    },
+    []
+  );
+
+  const login = useCallback(
+    (request: LoginParams) => withEmbed(instance => instance.login(request)),
+    [withEmbed]
+  );
+  const logout = useCallback(
+    (logoutOptions?: LogoutOptions) =>
+      withEmbed(instance => instance.logout(logoutOptions)),
+    [withEmbed]
+  );
+  const setRoute = useCallback(
+    (fullPath: string) => withEmbed(instance => instance.setRoute(fullPath)),
+    [withEmbed]
+  );
+  const setLanguage = useCallback(
+    (nextLanguage: string) =>
+      withEmbed(instance => instance.setLanguage(nextLanguage)),
+    [withEmbed]
+  );
+
+  return {
+    containerRef,
+    embed,
+    currentRoute,
+    isReady,
+    login,
+    logout,
+    setRoute,
+    setLanguage,
+  };
+}
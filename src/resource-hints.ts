@@ -0,0 +1,38 @@
+/**
+ * Add `preconnect` and `dns-prefetch` hints for the TaskOn origin, so the
+ * connection is ready when the iframe loads. Hints already in the page are
+ * not duplicated. Called by init(); call it earlier, e.g. when the page
+ * loads, to start connecting before the embed is created
+ *
+ * @param baseUrl - Base URL of the TaskOn service
+ *
+ * @example
+ * ```typescript
+ * import { preconnect } from '@taskon/embed';
+ *
+ * preconnect('https://yourtaskondomain.com');
+ * ```
+ */
+export function preconnect(baseUrl: string): void {
+  let origin: string;
+  try {
+    origin = new URL(baseUrl).origin;
+  } catch {
+    return;
+  }
+  if (origin === window.location.origin) {
+    return;
+  }
+
+  for (const rel of ["preconnect", "dns-prefetch"]) {
+    const exists = Array.from(
+      document.head.querySelectorAll<HTMLLinkElement>(`link[rel="${rel}"]`)
+    ).some(link => link.href.replace(/\/$/, "") === origin);
+    if (exists) continue;
+
+    const link = document.createElement("link");
+    link.rel = rel;
+    link.href = origin;
+    document.head.appendChild(link);
+  }
+}
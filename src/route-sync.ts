@@ -0,0 +1,308 @@
+import type { TaskOnEmbed } from "./embed";
+import { namespaced } from "./instance";
+
+/**
+ * Router the iframe route is synchronized with. Locations are host URLs
+ * without origin (pathname + search + hash).
+ */
+export interface RouteSyncRouter {
+  /** Current host location */
+  getLocation(): string;
+  /** Navigate the host to a location */
+  navigate(location: string, replace: boolean): void;
+  /**
+   * Call `onChange` when the host location changes (back/forward buttons,
+   * host navigation). Returns a function that stops listening
+   */
+  listen(onChange: () => void): () => void;
+}
+
+/**
+ * Route synchronization options
+ */
+export interface RouteSyncOptions {
+  /**
+   * Where the iframe route is kept in the host URL (default: 'query')
+   * - path: as path below `basePath`, e.g. `/quests/task/1`
+   * - hash: as hash, e.g. `/quests#/task/1`
+   * - query: as query parameter, e.g. `/quests?taskon_route=%2Ftask%2F1`
+   */
+  mode?: "path" | "hash" | "query";
+  /** Host path the iframe routes are mounted under, for path mode (default: '') */
+  basePath?: string;
+  /**
+   * Query parameter name, for query mode (default: 'taskon_route', namespaced
+   * with the instance id, e.g. 'taskon_route.board')
+   */
+  queryParam?: string;
+  /**
+   * How iframe navigation is added to the host history (default: 'push').
+   * The initial route always replaces the current entry
+   */
+  history?: "push" | "replace";
+  /** Host router (default: the History API, see createHistoryRouter) */
+  router?: RouteSyncRouter;
+}
+
+/**
+ * Keep the iframe route and the host URL in sync
+ *
+ * - iframe navigation updates the host URL (push or replace)
+ * - back/forward buttons and host navigation call `setRoute`
+ * - on initial load, the route in the host URL is opened in the iframe
+ *
+ * Routes set from the host are not pushed back into the history, so the two
+ * sides don't echo each other.
+ *
+ * @param embed - Embed instance, initialized or not
+ * @param options - Route synchronization options
+ * @returns Function that stops the synchronization
+ *
+ * @example
+ * ```typescript
+ * import { bindRouteSync, TaskOnEmbed } from '@taskon/embed';
+ *
+ * const embed = new TaskOnEmbed({ baseUrl, containerElement: '#taskon' });
+ * const unbind = bindRouteSync(embed, { mode: 'path', basePath: '/quests' });
+ * await embed.init();
+ * ```
+ */
+export function bindRouteSync(
+  embed: TaskOnEmbed,
+  options: RouteSyncOptions = {}
+): () => void {
+  const router = options.router ?? createHistoryRouter();
+  const codec = createRouteCodec({
+    ...options,
+    instanceId: embed.instanceId,
+  });
+  // Routes requested from the host that the iframe has not reported yet
+  const pendingRoutes = new Set<string>();
+  let awaitingInitialRoute = !embed.initialized;
+
+  const setIframeRoute = (route: string) => {
+    pendingRoutes.add(route);
+    embed.setRoute(route).catch(error => {
+      pendingRoutes.delete(route);
+      console.warn("Failed to sync route to iframe:", error);
+    });
+  };
+
+  const navigateHost = (fullPath: string, replace: boolean) => {
+    const location = router.getLocation();
+    const target = codec.write(fullPath, location);
+    if (target !== location) {
+      router.navigate(target, replace);
+    }
+  };
+
+  const onHostChange = () => {
+    const route = codec.read(router.getLocation());
+    if (route === null || route === embed.currentRoute || !embed.initialized) {
+      return;
+    }
+    setIframeRoute(route);
+  };
+
+  const onRouteChanged = (fullPath: string) => {
+    if (awaitingInitialRoute) {
+      awaitingInitialRoute = false;
+      const hostRoute = codec.read(router.getLocation());
+      if (hostRoute !== null && hostRoute !== fullPath) {
+        setIframeRoute(hostRoute);
+        return;
+      }
+      navigateHost(fullPath, true);
+      return;
+    }
+
+    if (pendingRoutes.has(fullPath)) {
+      // Echo of a route set from the host, which is already in the URL
+      pendingRoutes.delete(fullPath);
+      return;
+    }
+    // The iframe redirected a route set from the host: replace its entry
+    const redirected = pendingRoutes.size > 0;
+    pendingRoutes.clear();
+    navigateHost(fullPath, redirected || options.history === "replace");
+  };
+
+  embed.on("routeChanged", onRouteChanged);
+  const stopListening = router.listen(onHostChange);
+  if (embed.initialized) {
+    onHostChange();
+  }
+
+  return () => {
+    embed.off("routeChanged", onRouteChanged);
+    stopListening();
+  };
+}
+
+/**
+ * Router backed by the History API
+ *
+ * @param win - Window whose history is used (default: current window)
+ */
+export function createHistoryRouter(win: Window = window): RouteSyncRouter {
+  return {
+    getLocation: () =>
+      win.location.pathname + win.location.search + win.location.hash,
+    navigate: (location, replace) => {
+      if (replace) {
+        win.history.replaceState(win.history.state, "", location);
+      } else {
+        win.history.pushState(null, "", location);
+      }
+    },
+    listen: onChange => {
+      win.addEventListener("popstate", onChange);
+      win.addEventListener("hashchange", onChange);
+      return () => {
+        win.removeEventListener("popstate", onChange);
+        win.removeEventListener("hashchange", onChange);
+      };
+    },
+  };
+}
+
+/**
+ * Minimal shape of a React Router data router (`createBrowserRouter`)
+ */
+export interface ReactRouterLike {
+  state: { location: { pathname: string; search: string; hash: string } };
+  navigate(to: string, options?: { replace?: boolean }): unknown;
+  subscribe(listener: (state: any) => void): () => void;
+}
+
+/**
+ * Adapter for React Router data routers, so React Router sees the
+ * navigation done by the route synchronization
+ *
+ * @example
+ * ```typescript
+ * const router = createBrowserRouter(routes);
+ * bindRouteSync(embed, {
+ *   mode: 'path',
+ *   basePath: '/quests',
+ *   router: createReactRouterAdapter(router),
+ * });
+ * ```
+ */
+export function createReactRouterAdapter(
+  router: ReactRouterLike
+): RouteSyncRouter {
+  return {
+    getLocation: () => {
+      const { pathname, search, hash } = router.state.location;
+      return pathname + search + hash;
+    },
+    navigate: (location, replace) => {
+      void router.navigate(location, { replace });
+    },
+    listen: onChange => router.subscribe(() => onChange()),
+  };
+}
+
+/**
+ * Minimal shape of a Vue Router instance
+ */
+export interface VueRouterLike {
+  currentRoute: { value: { fullPath: string } };
+  push(to: string): unknown;
+  replace(to: string): unknown;
+  afterEach(guard: () => void): () => void;
+}
+
+/**
+ * Adapter for Vue Router, so Vue Router sees the navigation done by the
+ * route synchronization
+ *
+ * @example
+ * ```typescript
+ * const router = createRouter({ history: createWebHistory(), routes });
+ * bindRouteSync(embed, { router: createVueRouterAdapter(router) });
+ * ```
+ */
+export function createVueRouterAdapter(router: VueRouterLike): RouteSyncRouter {
+  return {
+    getLocation: () => router.currentRoute.value.fullPath,
+    navigate: (location, replace) => {
+      void (replace ? router.replace(location) : router.push(location));
+    },
+    listen: onChange => router.afterEach(() => onChange()),
+  };
+}
+
+/**
+ * Read and write the iframe route in a host location
+ */
+export interface RouteCodec {
+  /** Iframe route in the location, or null if it has none */
+  read(location: string): string | null;
+  /** Location with the iframe route */
+  write(route: string, location: string): string;
+}
+
+/** Base for parsing locations without origin */
+const LOCATION_BASE = "http://localhost";
+
+/**
+ * Create the codec of a route synchronization mode
+ */
+export function createRouteCodec(
+  options: Pick<RouteSyncOptions, "mode" | "basePath" | "queryParam"> & {
+    /** Embed instance id, namespacing the default query parameter */
+    instanceId?: string;
+  }
+): RouteCodec {
+  switch (options.mode ?? "query") {
+    case "hash":
+      return {
+        read: location => {
+          const index = location.indexOf("#");
+          const route = index >= 0 ? location.slice(index + 1) : "";
+          return route.startsWith("/") ? route : null;
+        },
+        write: (route, location) => location.split("#")[0] + "#" + route,
+      };
+
+    case "path": {
+      const basePath = (options.basePath ?? "").replace(/\/+$/, "");
+      return {
+        read: location => {
+          if (!basePath) {
+            return location;
+          }
+          const rest = location.slice(basePath.length);
+          if (
+            location.startsWith(basePath) &&
+            (rest === "" || /^[/?#]/.test(rest))
+          ) {
+            return rest.startsWith("/") ? rest : "/" + rest;
+          }
+          return null;
+        },
+        write: route => (route === "/" ? basePath || "/" : basePath + route),
+      };
+    }
+
+    case "query": {
+      const param =
+        options.queryParam ?? namespaced("taskon_route", options.instanceId);
+      return {
+        read: location =>
+          new URL(location, LOCATION_BASE).searchParams.get(param) || null,
+        write: (route, location) => {
+          const url = new URL(location, LOCATION_BASE);
+          if (route === "/") {
+            url.searchParams.delete(param);
+          } else {
+            url.searchParams.set(param, route);
+          }
+          return url.pathname + url.search + url.hash;
+        },
+      };
+    }
+  }
+}
@@ -0,0 +1,164 @@
+import { namespaced } from "./instance";
+import { createRouteCodec, RouteSyncOptions } from "./route-sync";
+
+/**
+ * Path templates of the iframe pages, `:id` is replaced with the encoded id
+ */
+export interface TaskOnRoutePaths {
+  /** Quest (task) detail page (default: `/quest/:id`) */
+  task: string;
+  /** Campaign detail page (default: `/campaign/detail/:id`) */
+  campaign: string;
+  /** Leaderboard (default: `/leaderboard`) */
+  leaderboard: string;
+  /** Leaderboard of a campaign (default: `/campaign/detail/:id/leaderboard`) */
+  campaignLeaderboard: string;
+  /** Profile of the logged in user (default: `/profile`) */
+  profile: string;
+}
+
+/**
+ * Page paths of the TaskOn app as shown in the address bar of taskon.xyz.
+ * They are no versioned contract: white-label deployments may differ, compare
+ * with `currentRoute` and pass your paths to createTaskOnRoutes
+ */
+export const DEFAULT_ROUTE_PATHS: TaskOnRoutePaths = {
+  task: "/quest/:id",
+  campaign: "/campaign/detail/:id",
+  leaderboard: "/leaderboard",
+  campaignLeaderboard: "/campaign/detail/:id/leaderboard",
+  profile: "/profile",
+};
+
+/**
+ * Create builders of iframe routes, for `initialRoute`, `setRoute()` and deep
+ * links
+ *
+ * @param paths - Path templates replacing the defaults
+ *
+ * @example
+ * ```typescript
+ * const routes = createTaskOnRoutes({ task: '/tasks/:id' });
+ * await embed.setRoute(routes.task(1234)); // "/tasks/1234"
+ * ```
+ */
+export function createTaskOnRoutes(paths: Partial<TaskOnRoutePaths> = {}) {
+  const templates = { ...DEFAULT_ROUTE_PATHS, ...paths };
+  return {
+    /** Quest (task) detail page */
+    task: (taskId: string | number): string => fillPath(templates.task, taskId),
+    /** Campaign detail page */
+    campaign: (campaignId: string | number): string =>
+      fillPath(templates.campaign, campaignId),
+    /** Leaderboard, of a campaign when campaignId is given */
+    leaderboard: (campaignId?: string | number): string =>
+      campaignId === undefined
+        ? fillPath(templates.leaderboard)
+        : fillPath(templates.campaignLeaderboard, campaignId),
+    /** Profile of the logged in user */
+    profile: (): string => fillPath(templates.profile),
+  };
+}
+
+/**
+ * Builders of iframe routes with the default paths, see createTaskOnRoutes
+ *
+ * @example
+ * ```typescript
+ * await embed.setRoute(TaskOnRoutes.task(1234));
+ * ```
+ */
+export const TaskOnRoutes = createTaskOnRoutes();
+
+/**
+ * Deep link options. The mode options must match the route synchronization
+ * of the host page, see bindRouteSync
+ */
+export interface DeepLinkOptions
+  extends Pick<RouteSyncOptions, "mode" | "basePath" | "queryParam"> {
+  /** Host page URL the link points to (default: current page) */
+  hostUrl?: string;
+  /** Invite code, added as `task_invite_code` */
+  inviteCode?: string;
+  /**
+   * Id of the embed instance the link opens, when several embeds are on the
+   * page. Namespaces the query parameters like the instance does
+   */
+  instanceId?: string;
+}
+
+/**
+ * Build a shareable host page URL that opens the embed on a route
+ *
+ * @param route - Iframe route, e.g. from TaskOnRoutes
+ * @param options - Deep link options
+ * @returns Absolute URL of the host page
+ *
+ * @example
+ * ```typescript
+ * const link = buildDeepLink(TaskOnRoutes.campaign(42), {
+ *   hostUrl: 'https://example.com/quests',
+ * });
+ * // https://example.com/quests?taskon_route=%2Fcampaign%2Fdetail%2F42
+ * ```
+ */
+export function buildDeepLink(
+  route: string,
+  options: DeepLinkOptions = {}
+): string {
+  const hostUrl = new URL(options.hostUrl ?? window.location.href);
+  const location = createRouteCodec(options).write(
+    normalizeRoute(route),
+    hostUrl.pathname + hostUrl.search + hostUrl.hash
+  );
+  const url = new URL(location, hostUrl.origin);
+  if (options.inviteCode) {
+    url.searchParams.set(
+      namespaced("task_invite_code", options.instanceId),
+      options.inviteCode
+    );
+  }
+  return url.toString();
+}
+
+/**
+ * Read the iframe route of a deep link, to pass as `initialRoute`
+ *
+ * @param options - Mode options of the deep links
+ * @param url - Host page URL (default: current page)
+ * @returns Iframe route, or undefined if the URL has none
+ *
+ * @example
+ * ```typescript
+ * const embed = new TaskOnEmbed({
+ *   baseUrl,
+ *   containerElement: '#taskon',
+ *   initialRoute: readDeepLink() ?? TaskOnRoutes.leaderboard(),
+ * });
+ * ```
+ */
+export function readDeepLink(
+  options: Pick<
+    DeepLinkOptions,
+    "mode" | "basePath" | "queryParam" | "instanceId"
+  > = {},
+  url: string = window.location.href
+): string | undefined {
+  const { pathname, search, hash } = new URL(url);
+  return createRouteCodec(options).read(pathname + search + hash) ?? undefined;
+}
+
+/**
+ * Make sure a route is a path relative to the TaskOn base URL
+ */
+export function normalizeRoute(route: string): string {
+  return route.startsWith("/") ? route : "/" + route;
+}
+
+/**
+ * Replace the `:id` placeholder of a path template
+ */
+function fillPath(template: string, id?: string | number): string {
+  const path = normalizeRoute(template);
+  return id === undefined ? path : path.replace(":id", encodeURIComponent(id));
+}
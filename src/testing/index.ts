@@ -0,0 +1,6 @@
+export { MockTaskOnChild } from "./mock-child.js";
+export type {
+  MockCall,
+  MockTaskOnChildEvents,
+  MockTaskOnChildOptions,
+} from "./mock-child.js";
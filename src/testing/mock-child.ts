@@ -0,0 +1,503 @@
+import { EventEmitter } from "eventemitter3";
+import { connect, Connection, RemoteProxy, WindowMessenger } from "penpal";
+import type {
+  AuthType,
+  LoginErrorCode,
+  LoginRequest,
+  LogoutOptions,
+  PenpalChildMethods,
+  PenpalParentMethods,
+  SnsType,
+  TaskCompletedData,
+  TaskOnResolvedTheme,
+  WalletProviderInfo,
+} from "../types.js";
+
+/**
+ * A call recorded by the mock child
+ * - parent-to-child: the host page called a child method (login, setRoute, ...)
+ * - child-to-parent: the mock called a parent method (requestLogin, onRouteChange, ...)
+ */
+export interface MockCall {
+  /** Direction of the call */
+  direction: "parent-to-child" | "child-to-parent";
+  /** Method name */
+  method: string;
+  /** Call arguments */
+  args: any[];
+  /** Time of the call (ms since epoch) */
+  timestamp: number;
+}
+
+/**
+ * Options for the mock TaskOn child
+ */
+export interface MockTaskOnChildOptions {
+  /**
+   * Origins of the host page allowed to connect. Defaults to the `origin`
+   * query parameter the SDK appends to the iframe URL.
+   */
+  allowedOrigins?: (string | RegExp)[];
+  /**
+   * Accounts considered authorized from the start (isAuthorized returns true
+   * and login succeeds without a signature), e.g. `["Email:user@example.com"]`
+   */
+  authorizedAccounts?: string[];
+  /**
+   * Custom signature check for logins with a signature (default: accept any)
+   */
+  verifyLogin?: (request: LoginRequest) => boolean | Promise<boolean>;
+  /**
+   * Report the initial route to the host once connected (default: true)
+   */
+  reportInitialRoute?: boolean;
+  /**
+   * Expose the instance as `window.__taskonMockChild` so browser test
+   * drivers can script it from the frame (default: true)
+   */
+  exposeOnWindow?: boolean;
+}
+
+/**
+ * Events emitted by the mock TaskOn child
+ */
+export interface MockTaskOnChildEvents {
+  /** Fired for every recorded call */
+  call: (call: MockCall) => void;
+}
+
+/**
+ * Local implementation of the TaskOn iframe (child side of the penpal protocol)
+ * for offline integration tests of host pages.
+ *
+ * Serve a page calling `connect()` from your test server and point the
+ * embed's `baseUrl` at it.
+ *
+ * @example
+ * ```typescript
+ * // mock-taskon.html served at http://localhost:4000
+ * import { MockTaskOnChild } from '@taskon/embed/testing';
+ *
+ * const child = new MockTaskOnChild({
+ *   authorizedAccounts: ['Email:user@example.com'],
+ * });
+ * await child.connect();
+ *
+ * // Script the host page
+ * await child.requestLogin();
+ * await child.completeTask({ taskId: '1', taskName: 'Follow', templateId: 'x', rewards: [] });
+ *
+ * // Inspect what the host page did
+ * child.getCalls('login');
+ * ```
+ */
+export class MockTaskOnChild extends EventEmitter<MockTaskOnChildEvents> {
+  private options: MockTaskOnChildOptions;
+  private connection: Connection<PenpalParentMethods> | null = null;
+  private parent: RemoteProxy<PenpalParentMethods> | null = null;
+  private authorized: Set<string>;
+  private _calls: MockCall[] = [];
+  private _currentUser: LoginRequest | null = null;
+  private _route: string = "";
+  private _language: string = "";
+  private _theme: TaskOnResolvedTheme | null = null;
+  private _providerKeys: string[] = [];
+  private _providerInfo: Record<string, WalletProviderInfo> = {};
+  private resizeObserver: ResizeObserver | null = null;
+
+  /**
+   * Creates a new mock TaskOn child.
+   *
+   * @param options - Mock options
+   */
+  constructor(options: MockTaskOnChildOptions = {}) {
+    super();
+    this.options = { ...options };
+    this.authorized = new Set(
+      (options.authorizedAccounts ?? []).map(key => key.toLowerCase())
+    );
+  }
+
+  /**
+   * Connect to the host page. Resolves once the penpal handshake is done.
+   */
+  public async connect(): Promise<void> {
+    const params = new URLSearchParams(window.location.search);
+    this._route = window.location.pathname;
+    this._language = params.get("lang") ?? "en";
+
+    const allowedOrigins = this.options.allowedOrigins ?? [
+      params.get("origin") ?? "*",
+    ];
+    const messenger = new WindowMessenger({
+      remoteWindow: window.parent,
+      allowedOrigins,
+    });
+
+    const methods: PenpalChildMethods = {
+      login: async request => {
+        this.record("parent-to-child", "login", [request]);
+        const key = this.getAccountKey(request.type, request.account);
+        if (!this.authorized.has(key)) {
+          if (!request.signature || !request.timestamp) {
+            throw createLoginError(
+              "signature_required",
+              "Signature is required for unauthorized account"
+            );
+          }
+          if (
+            this.options.verifyLogin &&
+            !(await this.options.verifyLogin(request))
+          ) {
+            throw createLoginError("invalid_signature", "Invalid signature");
+          }
+          this.authorized.add(key);
+        }
+        this._currentUser = { ...request };
+        await this.callParent("onLoggedIn", {
+          id: this.getUserId(request.type, request.account),
+          type: request.type,
+          account: request.account,
+        });
+      },
+      logout: async (options?: LogoutOptions) => {
+        this.record("parent-to-child", "logout", [options]);
+        if (options?.clearAuth) {
+          this.authorized.clear();
+        }
+        this._currentUser = null;
+        await this.callParent("onLoggedOut");
+      },
+      isAuthorized: async (authType, account) => {
+        this.record("parent-to-child", "isAuthorized", [authType, account]);
+        return this.authorized.has(this.getAccountKey(authType, account));
+      },
+      setRoute: async fullPath => {
+        this.record("parent-to-child", "setRoute", [fullPath]);
+        await this.navigate(fullPath);
+      },
+      setLanguage: async language => {
+        this.record("parent-to-child", "setLanguage", [language]);
+        this._language = language;
+      },
+      setTheme: async theme => {
+        this.record("parent-to-child", "setTheme", [theme]);
+        this._theme = theme;
+      },
+      setupWalletProviders: async (providerKeys, providerInfo) => {
+        this.record("parent-to-child", "setupWalletProviders", [
+          providerKeys,
+          providerInfo,
+        ]);
+        this._providerKeys = [...providerKeys];
+        this._providerInfo = { ...providerInfo };
+      },
+      onWalletEvent: async (providerKey, eventName, listenerId, ...args) => {
+        this.record("parent-to-child", "onWalletEvent", [
+          providerKey,
+          eventName,
+          listenerId,
+          ...args,
+        ]);
+      },
+      onOauthResult: async result => {
+        this.record("parent-to-child", "onOauthResult", [result]);
+      },
+      setAutoHeight: async enabled => {
+        this.record("parent-to-child", "setAutoHeight", [enabled]);
+        this.resizeObserver?.disconnect();
+        this.resizeObserver = null;
+        if (enabled) {
+          const root = document.documentElement;
+          this.resizeObserver = new ResizeObserver(() => {
+            void this.reportHeight(root.scrollHeight);
+          });
+          this.resizeObserver.observe(root);
+          await this.reportHeight(root.scrollHeight);
+        }
+      },
+    };
+
+    this.connection = connect<PenpalParentMethods>({ messenger, methods });
+    this.parent = await this.connection.promise;
+
+    if (this.options.exposeOnWindow ?? true) {
+      (window as any).__taskonMockChild = this;
+    }
+    if (this.options.reportInitialRoute ?? true) {
+      await this.callParent("onRouteChange", this._route);
+    }
+  }
+
+  /**
+   * All recorded calls in order
+   */
+  public get calls(): MockCall[] {
+    return [...this._calls];
+  }
+
+  /**
+   * Currently logged in user, or null when anonymous
+   */
+  public get currentUser(): LoginRequest | null {
+    return this._currentUser;
+  }
+
+  /**
+   * Current mock route
+   */
+  public get route(): string {
+    return this._route;
+  }
+
+  /**
+   * Current mock language
+   */
+  public get language(): string {
+    return this._language;
+  }
+
+  /**
+   * Theme received through setTheme, or null when none was set
+   */
+  public get theme(): TaskOnResolvedTheme | null {
+    return this._theme;
+  }
+
+  /**
+   * Provider keys received through setupWalletProviders
+   */
+  public get providerKeys(): string[] {
+    return [...this._providerKeys];
+  }
+
+  /**
+   * Wallet metadata received through setupWalletProviders
+   */
+  public get providerInfo(): Record<string, WalletProviderInfo> {
+    return { ...this._providerInfo };
+  }
+
+  /**
+   * Get recorded calls, optionally filtered by method name
+   *
+   * @param method - Method name to filter by
+   */
+  public getCalls(method?: string): MockCall[] {
+    return method
+      ? this._calls.filter(call => call.method === method)
+      : this.calls;
+  }
+
+  /**
+   * Forget all recorded calls
+   */
+  public clearCalls(): void {
+    this._calls = [];
+  }
+
+  /**
+   * Wait until a method is called
+   *
+   * @param method - Method name
+   * @param timeout - Maximum wait in milliseconds (default: 5000)
+   * @returns The matching call
+   */
+  public waitForCall(
+    method: string,
+    timeout: number = 5000
+  ): Promise<MockCall> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.off("call", listener);
+        reject(new Error(`Timed out waiting for ${method}`));
+      }, timeout);
+      const listener = (call: MockCall) => {
+        if (call.method === method) {
+          clearTimeout(timer);
+          this.off("call", listener);
+          resolve(call);
+        }
+      };
+      this.on("call", listener);
+    });
+  }
+
+  /**
+   * Mark an account as authorized
+   *
+   * @param authType - Authentication type
+   * @param account - Account identifier
+   */
+  public authorize(authType: AuthType, account: string): void {
+    this.authorized.add(this.getAccountKey(authType, account));
+  }
+
+  /**
+   * Ask the host page to log the user in (parent `requestLogin`)
+   */
+  public requestLogin(): Promise<void> {
+    return this.callParent("requestLogin");
+  }
+
+  /**
+   * Report a completed task (parent `onTaskCompleted`)
+   *
+   * @param data - Task completion data
+   */
+  public completeTask(data: TaskCompletedData): Promise<void> {
+    return this.callParent("onTaskCompleted", data);
+  }
+
+  /**
+   * Start an OAuth flow (parent `requestOauth`)
+   *
+   * @param snsType - OAuth provider name
+   * @param state - OAuth state (default: random)
+   */
+  public requestOauth(
+    snsType: SnsType,
+    state: string = Math.random().toString(36).slice(2)
+  ): Promise<void> {
+    return this.callParent("requestOauth", snsType, state);
+  }
+
+  /**
+   * Navigate inside the mock and report it (parent `onRouteChange`)
+   *
+   * @param fullPath - New route path
+   */
+  public navigate(fullPath: string): Promise<void> {
+    this._route = fullPath;
+    return this.callParent("onRouteChange", fullPath);
+  }
+
+  /**
+   * Ask the host page to sign a message with the connected wallet
+   * (parent `requestSignVerify`)
+   *
+   * @param hexMessage - Hex encoded message
+   * @returns The signature returned by the host
+   */
+  public requestSignVerify(hexMessage: string): Promise<string> {
+    return this.callParent("requestSignVerify", hexMessage);
+  }
+
+  /**
+   * Send an EIP-1193 request through the host wallet bridge
+   * (parent `requestWalletProvider`)
+   *
+   * @param providerKey - Provider key announced by the host
+   * @param method - RPC method
+   * @param params - RPC params
+   */
+  public requestWallet(
+    providerKey: string,
+    method: string,
+    params?: any[]
+  ): Promise<any> {
+    return this.callParent(
+      "requestWalletProvider",
+      providerKey,
+      method,
+      params
+    );
+  }
+
+  /**
+   * Log the current user out from inside the iframe (parent `onLoggedOut`)
+   */
+  public logoutFromIframe(): Promise<void> {
+    this._currentUser = null;
+    return this.callParent("onLoggedOut");
+  }
+
+  /**
+   * Expire the session of the current user (parent `onSessionExpired`)
+   */
+  public expireSession(): Promise<void> {
+    if (this._currentUser) {
+      this.authorized.delete(
+        this.getAccountKey(this._currentUser.type, this._currentUser.account)
+      );
+    }
+    this._currentUser = null;
+    return this.callParent("onSessionExpired");
+  }
+
+  /**
+   * Report a content height, as in auto height mode (parent `onContentResize`)
+   *
+   * @param height - Content height in pixels
+   */
+  public reportHeight(height: number): Promise<void> {
+    return this.callParent("onContentResize", height);
+  }
+
+  /**
+   * Ask the host page to close the modal or drawer (parent `requestClose`)
+   */
+  public requestClose(): Promise<void> {
+    return this.callParent("requestClose");
+  }
+
+  /**
+   * Get the host page URL (parent `getParentUrl`)
+   */
+  public getParentUrl(): Promise<string> {
+    return this.callParent("getParentUrl");
+  }
+
+  /**
+   * Disconnect from the host page
+   */
+  public destroy(): void {
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+    this.connection?.destroy();
+    this.connection = null;
+    this.parent = null;
+    if ((window as any).__taskonMockChild === this) {
+      delete (window as any).__taskonMockChild;
+    }
+    this.removeAllListeners();
+  }
+
+  private async callParent(
+    method: keyof PenpalParentMethods,
+    ...args: any[]
+  ): Promise<any> {
+    if (!this.parent) {
+      throw new Error("Not connected, please call .connect() first");
+    }
+    this.record("child-to-parent", method, args);
+    return (this.parent[method] as (...args: any[]) => Promise<any>)(...args);
+  }
+
+  private record(
+    direction: MockCall["direction"],
+    method: string,
+    args: any[]
+  ): void {
+    const call: MockCall = { direction, method, args, timestamp: Date.now() };
+    this._calls.push(call);
+    this.emit("call", call);
+  }
+
+  private getUserId(authType: AuthType, account: string): string {
+    return `mock_${this.getAccountKey(authType, account)}`;
+  }
+
+  private getAccountKey(authType: AuthType, account: string): string {
+    return `${authType}:${account}`.toLowerCase();
+  }
+}
+
+/**
+ * Login error as the TaskOn iframe sends it: the code is the error name
+ */
+function createLoginError(code: LoginErrorCode, message: string): Error {
+  const error = new Error(message);
+  error.name = code;
+  return error;
+}
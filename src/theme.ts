@@ -0,0 +1,59 @@
+import type { TaskOnResolvedTheme, TaskOnTheme } from "./types";
+
+const DARK_COLOR_SCHEME_QUERY = "(prefers-color-scheme: dark)";
+
+/**
+ * Resolve a theme into what the iframe applies: the color mode is light or
+ * dark and the colors are the ones of that mode
+ *
+ * @param theme - Theme set by the host
+ * @param prefersDark - Whether the host page prefers a dark color scheme, for
+ * the system mode
+ */
+export function resolveTheme(
+  theme: TaskOnTheme,
+  prefersDark: boolean
+): TaskOnResolvedTheme {
+  let mode = theme.mode ?? "light";
+  if (mode === "system") {
+    mode = prefersDark ? "dark" : "light";
+  }
+  const colors =
+    mode === "dark"
+      ? { ...theme.colors, ...theme.darkColors }
+      : { ...theme.colors };
+  const { borderRadius } = theme;
+
+  return {
+    mode,
+    colors,
+    fontFamily: theme.fontFamily,
+    borderRadius:
+      typeof borderRadius === "number" ? `${borderRadius}px` : borderRadius,
+  };
+}
+
+/**
+ * Whether the host page prefers a dark color scheme
+ */
+export function prefersDarkColorScheme(): boolean {
+  return window.matchMedia?.(DARK_COLOR_SCHEME_QUERY).matches ?? false;
+}
+
+/**
+ * Watch the `prefers-color-scheme` of the host page
+ *
+ * @param onChange - Called with whether the dark scheme is now preferred
+ * @returns Function that stops watching
+ */
+export function watchColorScheme(
+  onChange: (prefersDark: boolean) => void
+): () => void {
+  const query = window.matchMedia?.(DARK_COLOR_SCHEME_QUERY);
+  if (!query) {
+    return () => {};
+  }
+  const listener = (event: MediaQueryListEvent) => onChange(event.matches);
+  query.addEventListener("change", listener);
+  return () => query.removeEventListener("change", listener);
+}
@@ -1,7 +1,8 @@
 import { AuthType } from "./types";
 
 /**
- * Generate or retrieve session ID from localStorage
+ * Generate or retrieve session ID from localStorage. The session belongs to
+ * the visitor, so it is shared by all embed instances of the page
  */
 function getSessionId(): string {
   const STORAGE_KEY = "taskon_session_id";
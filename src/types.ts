@@ -2,8 +2,15 @@
  * Common types shared between browser and Node.js environments
  */
 
-/** Supported authentication types */
-export type AuthType = "Email" | "WalletAddress";
+import type { AuthType, WalletAuthType } from "./auth-types";
+import type { TaskOnError } from "./errors";
+
+export type {
+  AuthType,
+  SignedLoginParams,
+  SignerType,
+  WalletAuthType,
+} from "./auth-types";
 
 /**
  * Configuration options for TaskOn embed instance
@@ -11,22 +18,184 @@ export type AuthType = "Email" | "WalletAddress";
 export interface TaskOnEmbedConfig {
   /** Base URL of the TaskOn service */
   baseUrl: string;
-  /** CSS selector string or HTMLElement where the embed should be rendered */
-  containerElement: string | HTMLElement;
-  /** Width of the embed iframe (CSS units or pixel number) - default: '100%' */
+  /**
+   * Instance id, needed when several embeds are on one page. Namespaces the
+   * storage keys and URL parameters of the instance (e.g.
+   * `task_invite_code.board`). Letters, digits, '-' and '_' only
+   */
+  id?: string;
+  /**
+   * CSS selector string or HTMLElement where the embed should be rendered.
+   * Required in inline display mode, unused in the other modes
+   */
+  containerElement?: string | HTMLElement;
+  /**
+   * How the embed is displayed (default: 'inline')
+   * - inline: rendered into `containerElement`
+   * - modal: centered dialog, opened with open()
+   * - drawer: panel sliding in from the side, opened with open()
+   * - launcher: floating button opening a modal or drawer
+   */
+  display?: TaskOnDisplayMode | TaskOnDisplayOptions;
+  /**
+   * Width of the embed iframe (CSS units or pixel number) - default: '100%'.
+   * Width of the dialog in modal, drawer and launcher modes
+   */
   width?: string | number;
-  /** Height of the embed iframe (CSS units or pixel number) - default: '100%' */
+  /**
+   * Height of the embed iframe (CSS units or pixel number) - default: '100%'.
+   * Height of the dialog in modal, drawer and launcher modes
+   */
   height?: string | number;
+  /**
+   * Resize the iframe to the height of its content, so the host page scrolls
+   * instead of the iframe. `height` is used until the first content height is
+   * reported (default: false)
+   */
+  autoHeight?: boolean | TaskOnAutoHeightOptions;
+  /**
+   * When the iframe is loaded (default: 'eager')
+   * - eager: by init()
+   * - lazy: when the container gets near the viewport, or on first open() in
+   *   modal, drawer and launcher display modes
+   * - manual: by load()
+   *
+   * Calls made before the iframe is ready wait for it
+   */
+  loading?: "eager" | "lazy" | "manual";
+  /**
+   * Margin around the viewport within which lazy loading starts, as CSS
+   * margin (default: '200px')
+   */
+  lazyRootMargin?: string;
+  /**
+   * Route opened on first load, e.g. `TaskOnRoutes.task(123)`. A route saved
+   * before an OAuth redirect takes precedence when returning from OAuth
+   */
+  initialRoute?: string;
   /** Language to use when loading the embed. Common values: 'en', 'ko', 'ru', 'es', 'ja' */
   language?: string;
+  /** Colors, font and light/dark mode of the iframe, see setTheme() */
+  theme?: TaskOnTheme;
   /** Development mode flag - when true, uses staging OAuth URL (default: false) */
   isDev?: boolean;
+  /**
+   * How OAuth flows (Twitter, Discord...) are opened (default: 'redirect')
+   * - redirect: navigate the whole host page to the OAuth page and restore the iframe route afterwards
+   * - popup: open the OAuth page in a popup window, leaving the host page
+   *   untouched. Falls back to redirect when the TaskOn app in the iframe
+   *   cannot receive OAuth results (no onOauthResult method)
+   */
+  oauthMode?: "redirect" | "popup";
+  /**
+   * URL the OAuth popup returns to (default: current page URL). Must have the
+   * same origin as the host page and either initialize the embed or call
+   * handleOAuthPopupCallback()
+   */
+  oauthPopupCallbackUrl?: string;
+  /** OAuth endpoints and providers, for white-label OAuth services */
+  oauth?: TaskOnOAuthConfig;
+  /**
+   * Automatic login strategy. When set, the embed handles login requests from
+   * the iframe itself instead of emitting `loginRequired`
+   */
+  auth?: TaskOnAuthStrategy;
+  /** Restrict and review the wallet RPC calls the iframe makes through the host */
+  walletPolicy?: TaskOnWalletPolicy;
+  /** Keep the session in sync with account changes of the login wallet */
+  walletSync?: TaskOnWalletSyncConfig;
+  /** Timeout and retries of the connection to the iframe in init() */
+  handshake?: TaskOnHandshakeOptions;
+  /** Host UI shown in place of the iframe while it loads, or when it failed to load */
+  fallback?: TaskOnFallbackUI;
 }
 
-export interface LoginParams {
+/**
+ * Timeout and retries of the connection to the iframe
+ */
+export interface TaskOnHandshakeOptions {
+  /** Time in milliseconds the iframe has to connect, per attempt (default: 10000) */
+  timeout?: number;
+  /** Attempts after the first one, each reloading the iframe (default: 2) */
+  retries?: number;
+  /** Delay in milliseconds before the first retry, doubled for each next retry (default: 1000) */
+  retryDelay?: number;
+}
+
+/**
+ * Host UI shown in the embed container in place of the iframe. Strings are
+ * shown as text
+ */
+export interface TaskOnFallbackUI {
+  /** Content shown until the iframe is connected */
+  loading?: () => HTMLElement | string;
+  /**
+   * Content shown when loading the iframe failed. `retry` removes it and
+   * loads again
+   */
+  error?: (error: TaskOnError, retry: () => void) => HTMLElement | string;
+}
+
+/**
+ * User resolved by an automatic login strategy
+ */
+export interface AuthStrategyUser {
   /** Type of login credential */
   type: AuthType;
-  /** Account (email address or EVM address) */
+  /** Account (email address or wallet address) */
+  account: string;
+  /**
+   * Default username for new user(optional)
+   */
+  username?: string;
+  /**
+   * Wallet provider matching the authentication type, see LoginParams.
+   * Needed for wallet authentication types
+   */
+  provider?: any;
+}
+
+/**
+ * Reason the iframe rejected a login, as `code` (or `name`) of the error
+ * - signature_required: the account is not authorized and has no signature
+ * - signature_expired: the signature timestamp is too old
+ * - invalid_signature: the signature does not match the login parameters
+ */
+export type LoginErrorCode =
+  | "signature_required"
+  | "signature_expired"
+  | "invalid_signature";
+
+/**
+ * Automatic login strategy
+ *
+ * On a login request from the iframe, the embed resolves the current user,
+ * checks `isAuthorized`, fetches a signature only when needed (once more if
+ * the signature is rejected as expired or invalid) and logs in.
+ */
+export interface TaskOnAuthStrategy {
+  /**
+   * Resolve the user logged in on the host site. May open your own login UI
+   * and resolve once the user has logged in. Resolve null if there is no user
+   * (e.g. the user cancelled), which fails the login
+   */
+  getCurrentUser: () =>
+    | Promise<AuthStrategyUser | null>
+    | AuthStrategyUser
+    | null;
+  /**
+   * Fetch a fresh server signature for the user, e.g. with fetchLoginParams
+   */
+  getSignature: (
+    user: AuthStrategyUser
+  ) => Promise<{ signature: string; timestamp: number }>;
+}
+
+/**
+ * Login parameters shared by all authentication types
+ */
+interface BaseLoginParams {
+  /** Account (email address or wallet address) */
   account: string;
   /** Server-generated signature for authentication, optional when the user is authorized(isAuthorized is true) */
   signature?: string;
@@ -38,10 +207,98 @@ export interface LoginParams {
    * Default username for new user(optional)
    */
   username?: string;
+}
+
+export interface EmailLoginParams extends BaseLoginParams {
+  /** Type of login credential */
+  type: "Email";
+  provider?: undefined;
+}
+
+export interface EvmLoginParams extends BaseLoginParams {
+  /** Type of login credential */
+  type: "WalletAddress";
   /**
-   * Ethereum eip1193 compatible provider, needed when type is WalletAddress
+   * Ethereum eip1193 compatible provider, or the key of a provider registered
+   * with registerWalletProvider
    */
-  provider?: any;
+  provider: any;
+}
+
+export interface SolanaLoginParams extends BaseLoginParams {
+  /** Type of login credential */
+  type: "SolanaAddress";
+  /**
+   * Wallet Standard wallet or injected provider (e.g. `window.solana`), or the
+   * key of a provider registered with registerWalletProvider
+   */
+  provider: SolanaWalletProvider | string;
+}
+
+export interface TonLoginParams extends BaseLoginParams {
+  /** Type of login credential */
+  type: "TonAddress";
+  /**
+   * TON Connect instance (e.g. `TonConnectUI`), or the key of a provider
+   * registered with registerWalletProvider
+   */
+  provider: TonWalletProvider | string;
+}
+
+export interface BitcoinLoginParams extends BaseLoginParams {
+  /** Type of login credential */
+  type: "BitcoinAddress";
+  /**
+   * Injected Bitcoin provider (e.g. `window.unisat`), or the key of a
+   * provider registered with registerWalletProvider
+   */
+  provider: BitcoinWalletProvider | string;
+}
+
+/**
+ * Login parameters, with the wallet provider matching the authentication type
+ */
+export type LoginParams =
+  | EmailLoginParams
+  | EvmLoginParams
+  | SolanaLoginParams
+  | TonLoginParams
+  | BitcoinLoginParams;
+
+/**
+ * Solana wallet: a Wallet Standard wallet with the `solana:signMessage`
+ * feature, or an injected provider with `signMessage` (e.g. `window.solana`)
+ */
+export interface SolanaWalletProvider {
+  /** Wallet Standard features */
+  features?: Record<string, any>;
+  /** Wallet Standard accounts */
+  accounts?: ReadonlyArray<{ address: string }>;
+  /** Injected provider message signing */
+  signMessage?(
+    message: Uint8Array,
+    display?: "utf8" | "hex"
+  ): Promise<{ signature: Uint8Array } | Uint8Array>;
+  [key: string]: any;
+}
+
+/**
+ * TON Connect instance supporting `signData`
+ */
+export interface TonWalletProvider {
+  signData(data: { type: "text"; text: string }): Promise<unknown>;
+  [key: string]: any;
+}
+
+/**
+ * Injected Bitcoin provider with message signing (Unisat compatible)
+ */
+export interface BitcoinWalletProvider {
+  signMessage(
+    message: string,
+    type?: string
+  ): Promise<string | { signature: string }>;
+  [key: string]: any;
 }
 
 /**
@@ -83,6 +340,17 @@ export interface AuthUser {
   timestamp?: number;
 }
 
+/**
+ * Login session state of the embed
+ * - anonymous: no user is logged in inside the iframe
+ * - authenticating: a login is in progress for `user`
+ * - authenticated: `user` is logged in inside the iframe
+ */
+export type TaskOnSession =
+  | { status: "anonymous" }
+  | { status: "authenticating"; user: Pick<AuthUser, "type" | "account"> }
+  | { status: "authenticated"; user: AuthUser };
+
 /**
  * Task reward information
  */
@@ -128,6 +396,40 @@ export interface TaskOnEmbedEvents {
   routeChanged: (fullPath: string) => void;
   /** Fired when user completes a task */
   taskCompleted: (data: TaskCompletedData) => void;
+  /** Fired when the automatic login strategy logged the user in */
+  loginSucceeded: (user: AuthStrategyUser) => void;
+  /** Fired when the automatic login strategy failed */
+  loginFailed: (error: Error) => void;
+  /** Fired when a user is logged in inside the iframe */
+  loggedIn: (user: AuthUser) => void;
+  /** Fired when the user logged out (from the host or inside the iframe) */
+  loggedOut: () => void;
+  /** Fired when the iframe session of the user expired */
+  sessionExpired: (user: AuthUser) => void;
+  /** Fired when an OAuth popup completed */
+  oauthCompleted: (snsType: SnsType) => void;
+  /** Fired when the browser blocked the OAuth popup */
+  oauthPopupBlocked: (snsType: SnsType) => void;
+  /** Fired when the user closed the OAuth popup before completing the flow */
+  oauthPopupClosed: (snsType: SnsType) => void;
+  /** Fired after every wallet RPC call proxied for the iframe, for auditing */
+  walletRequest: (record: WalletRequestRecord) => void;
+  /** Fired when the login wallet switched account or chain, or disconnected */
+  walletAccountChanged: (change: WalletAccountChange) => void;
+  /** Fired when auto height mode resized the iframe */
+  resize: (size: TaskOnResize) => void;
+  /** Fired when the modal or drawer opened */
+  opened: () => void;
+  /** Fired when the modal or drawer closed */
+  closed: () => void;
+  /** Fired when the iframe is connected and calls can be made */
+  ready: () => void;
+  /** Fired when loading the iframe failed, e.g. it did not connect in time */
+  error: (error: TaskOnError) => void;
+  /** Fired when the iframe page reloaded and the connection was lost */
+  disconnected: () => void;
+  /** Fired when the connection was restored after a reload */
+  reconnected: () => void;
 }
 
 /**
@@ -136,7 +438,7 @@ export interface TaskOnEmbedEvents {
 
 export type PenpalChildMethods = {
   /**
-   * Login with email or EVM address
+   * Login with email or wallet address
    * @param request - Login request
    * @returns Promise that resolves when login is successful
    */
@@ -164,11 +466,20 @@ export type PenpalChildMethods = {
    * @param language - Language key (e.g., 'en', 'ko', 'ru', 'es', 'ja'). Fallback to 'en' if not supported
    */
   setLanguage(language: string): Promise<void>;
+  /**
+   * Set the theme of the iframe
+   * @param theme - Theme with resolved color mode
+   */
+  setTheme(theme: TaskOnResolvedTheme): Promise<void>;
   /**
    * Setup wallet providers in iframe
    * @param providerKeys - Array of available provider keys
+   * @param providerInfo - Wallet metadata (name, icon, rdns) by provider key, for wallets that provide it
    */
-  setupWalletProviders(providerKeys: string[]): Promise<void>;
+  setupWalletProviders(
+    providerKeys: string[],
+    providerInfo?: Record<string, WalletProviderInfo>
+  ): Promise<void>;
   /**
    * Handle wallet events from parent window
    * @param providerKey - Provider key that emitted the event
@@ -182,30 +493,339 @@ export type PenpalChildMethods = {
     listenerId: string,
     ...args: any[]
   ): Promise<void>;
+  /**
+   * Deliver the result of an OAuth flow opened in popup mode
+   * @param result - OAuth result
+   */
+  onOauthResult(result: OAuthResult): Promise<void>;
+  /**
+   * Start or stop reporting the content height through the parent
+   * `onContentResize` method. While enabled, the child observes its document
+   * element with a ResizeObserver and reports its `scrollHeight` on every
+   * change, and once right away
+   * @param enabled - Whether to report the content height
+   */
+  setAutoHeight(enabled: boolean): Promise<void>;
 };
 
-export type SnsType = "twitter" | "discord" | "telegram" | "reddit";
+/**
+ * Registry of supported OAuth providers. Extend it through declaration
+ * merging to add providers served by your own OAuth endpoint
+ *
+ * @example
+ * ```typescript
+ * declare module '@taskon/embed' {
+ *   interface SnsTypeRegistry {
+ *     github: true;
+ *   }
+ * }
+ * ```
+ */
+export interface SnsTypeRegistry {
+  twitter: true;
+  discord: true;
+  telegram: true;
+  reddit: true;
+}
+
+/** Supported OAuth provider names */
+export type SnsType = keyof SnsTypeRegistry;
+
+/**
+ * Context passed to the OAuth URL hook
+ */
+export interface OAuthUrlContext {
+  /** OAuth provider name */
+  snsType: SnsType;
+  /** State passed to requestOauth */
+  state: string;
+  /** How the URL will be opened */
+  mode: "redirect" | "popup";
+}
+
+/**
+ * OAuth endpoint configuration
+ */
+export interface TaskOnOAuthConfig {
+  /**
+   * Base URL of the OAuth service. Defaults to the TaskOn OAuth center
+   * (staging when `isDev` is true)
+   */
+  baseUrl?: string;
+  /**
+   * Path (relative to `baseUrl`) or absolute URL per provider. Merged with
+   * the defaults: '/twitter', '/discord', '/telegram' and '/reddit'
+   */
+  providers?: Partial<Record<SnsType, string>>;
+  /**
+   * Customize the outgoing OAuth URL. Return a new URL (or string) to replace
+   * it, nothing to keep it, or false to cancel the OAuth flow
+   */
+  beforeOpen?: (
+    url: URL,
+    context: OAuthUrlContext
+  ) => URL | string | false | void;
+}
+
+/**
+ * Allowed and denied wallet RPC methods. Entries match exactly or by prefix
+ * with a trailing '*' (e.g. 'eth_signTypedData*')
+ */
+export interface WalletMethodRule {
+  /** Only these methods are allowed (default: all) */
+  allow?: string[];
+  /** These methods are denied, even when allowed above */
+  deny?: string[];
+}
+
+/**
+ * Wallet RPC call requested by the iframe
+ */
+export interface WalletRequest {
+  /**
+   * - walletProvider: generic call through a detected wallet provider
+   * - loginSignature: signature of the login message by the login provider
+   */
+  source: "walletProvider" | "loginSignature";
+  /** Provider key, for walletProvider requests */
+  providerKey?: string;
+  /** RPC method */
+  method: string;
+  /** RPC parameters */
+  params?: any[];
+}
+
+/**
+ * Changes applied to a wallet request by `onWalletRequest`. Login signatures
+ * only accept `params`: changing their method rejects the request
+ */
+export interface WalletRequestOverride {
+  method?: string;
+  params?: any[];
+}
+
+/**
+ * Wallet policy configuration
+ */
+export interface TaskOnWalletPolicy {
+  /**
+   * Method rules per provider key (e.g. 'ethereum', 'eip6963:io.metamask').
+   * A wallet reachable under several keys gets the rules of all of them. The
+   * '*' entry applies to providers without their own rule. Not applied to
+   * login signatures
+   */
+  methods?: Record<string, WalletMethodRule>;
+  /**
+   * Review a request before it reaches the wallet, e.g. to show your own
+   * confirmation UI. Return false to reject it, an override to modify it, or
+   * nothing to forward it unchanged. Errors thrown are returned to the iframe
+   */
+  onWalletRequest?: (
+    request: WalletRequest
+  ) =>
+    | boolean
+    | void
+    | WalletRequestOverride
+    | Promise<boolean | void | WalletRequestOverride>;
+}
+
+/**
+ * Audit record of a proxied wallet request
+ */
+export interface WalletRequestRecord {
+  /** Request as forwarded to the wallet (after onWalletRequest changes) */
+  request: WalletRequest;
+  /**
+   * - fulfilled: the wallet returned a result
+   * - failed: the wallet returned an error
+   * - denied: blocked by the method rules
+   * - rejected: rejected by onWalletRequest
+   */
+  status: "fulfilled" | "failed" | "denied" | "rejected";
+  /** Wallet result, when fulfilled */
+  result?: unknown;
+  /** Error returned to the iframe, when not fulfilled */
+  error?: unknown;
+  /** Time of the request (milliseconds since epoch) */
+  timestamp: number;
+}
+
+/**
+ * Account or chain change of the wallet used to log in
+ */
+export interface WalletAccountChange {
+  /**
+   * - accountsChanged: the wallet switched to another account
+   * - chainChanged: the wallet switched chain (or Bitcoin network)
+   * - disconnect: the wallet disconnected
+   */
+  reason: "accountsChanged" | "chainChanged" | "disconnect";
+  /** Authentication type of the login */
+  type: WalletAuthType;
+  /** Logged in account */
+  previousAccount: string;
+  /**
+   * New account for accountsChanged, the logged in account for chainChanged,
+   * null for disconnect
+   */
+  account: string | null;
+  /** New chain id (or Bitcoin network), for chainChanged */
+  chainId?: string;
+}
+
+/**
+ * Color tokens of the iframe. Any CSS color value; unset tokens keep the
+ * TaskOn default of the color mode
+ */
+export interface TaskOnThemeColors {
+  /** Brand color of buttons, links and highlights */
+  primary?: string;
+  /** Text and icons on primary backgrounds */
+  onPrimary?: string;
+  /** Page background */
+  background?: string;
+  /** Background of cards, dialogs and inputs */
+  surface?: string;
+  /** Main text */
+  text?: string;
+  /** Secondary text, e.g. descriptions and hints */
+  textSecondary?: string;
+  /** Borders and dividers */
+  border?: string;
+  /** Success states, e.g. completed tasks */
+  success?: string;
+  /** Error states and destructive actions */
+  error?: string;
+}
+
+/**
+ * Look of the iframe, for white-label integrations
+ */
+export interface TaskOnTheme {
+  /**
+   * Color mode (default: 'light')
+   * - system: follow the `prefers-color-scheme` of the host page, also when
+   *   it changes
+   */
+  mode?: "light" | "dark" | "system";
+  /** Color tokens, used in both modes */
+  colors?: TaskOnThemeColors;
+  /** Color tokens overriding `colors` in dark mode */
+  darkColors?: TaskOnThemeColors;
+  /** CSS font family, e.g. `'Inter, sans-serif'`. The font must be available in the iframe (system or web font) */
+  fontFamily?: string;
+  /** Border radius of cards, buttons and inputs (CSS units or pixel number) */
+  borderRadius?: string | number;
+}
+
+/**
+ * Theme as sent to the iframe: the mode is resolved and the colors are the
+ * ones of that mode
+ */
+export interface TaskOnResolvedTheme {
+  mode: "light" | "dark";
+  colors: TaskOnThemeColors;
+  fontFamily?: string;
+  /** CSS value */
+  borderRadius?: string;
+}
+
+/**
+ * Display mode of the embed
+ */
+export type TaskOnDisplayMode = "inline" | "modal" | "drawer" | "launcher";
+
+/**
+ * Display mode with options
+ */
+export interface TaskOnDisplayOptions {
+  mode: TaskOnDisplayMode;
+  /** Side of the drawer and of the launcher button (default: 'right') */
+  placement?: "left" | "right";
+  /** What the launcher button opens (default: 'modal') */
+  launcherTarget?: "modal" | "drawer";
+  /** Text of the launcher button (default: 'Quests') */
+  launcherLabel?: string;
+  /** Accessible name of the dialog (default: 'TaskOn') */
+  title?: string;
+  /** Close when the backdrop is clicked (default: true) */
+  closeOnBackdropClick?: boolean;
+  /** Close when Escape is pressed (default: true) */
+  closeOnEscape?: boolean;
+  /** z-index of the overlay (default: 2147483000) */
+  zIndex?: number;
+  /** Class name added to the overlay element, for custom styling */
+  className?: string;
+}
+
+/**
+ * Options of the auto height mode
+ */
+export interface TaskOnAutoHeightOptions {
+  /** Minimum iframe height in pixels (default: 0) */
+  minHeight?: number;
+  /** Maximum iframe height in pixels, the iframe scrolls above it (default: none) */
+  maxHeight?: number;
+  /**
+   * Delay in milliseconds before a reported height is applied. Heights
+   * reported in between replace it (default: 100)
+   */
+  debounce?: number;
+}
 
 /**
- * Webhook payload sent when a user receives a reward
+ * Size applied to the iframe in auto height mode
  */
-export interface WebhookPayload {
-  /** Unique identifier of the completed task */
-  task_id: number;
-  /** Type of reward distributed */
-  reward_type: "Token" | "GTCPoints";
-  /** Numeric amount of reward distributed */
-  reward_amount: string;
-  /** Token contract address (only for Token rewards) */
-  token_contract?: string;
-  /** Token symbol (only for Token rewards) */
-  token_symbol?: string;
-  /** Blockchain network (only for Token rewards) */
-  token_network?: string;
-  /** Name of the point system (only for GTCPoints rewards) */
-  point_name?: string;
+export interface TaskOnResize {
+  /** Applied iframe height in pixels, within minHeight and maxHeight */
+  height: number;
+  /** Content height reported by the iframe in pixels */
+  contentHeight: number;
 }
 
+/**
+ * Session behavior when the login wallet changes account
+ */
+export interface TaskOnWalletSyncConfig {
+  /**
+   * What to do when the login wallet switches account or disconnects. Chain
+   * changes only emit `walletAccountChanged`
+   * - ignore (default): keep the session, only emit `walletAccountChanged`
+   * - logout: log out of the iframe
+   * - relogin: log in the new account with `relogin`, or the `auth` strategy
+   *   when `relogin` is not set; log out on disconnect
+   */
+  onAccountChange?: "logout" | "relogin" | "ignore";
+  /**
+   * Login parameters of the new account, for the relogin policy. Resolve
+   * null to log out instead
+   */
+  relogin?: (
+    change: WalletAccountChange
+  ) => LoginParams | null | Promise<LoginParams | null>;
+}
+
+/**
+ * Result of an OAuth flow opened in popup mode
+ */
+export interface OAuthResult {
+  /** OAuth provider name */
+  snsType: SnsType;
+  /** State passed to requestOauth */
+  state: string;
+  /**
+   * - success: the OAuth page returned to `callbackUrl`
+   * - blocked: the browser blocked the popup
+   * - closed: the user closed the popup
+   * - cancelled: the host cancelled the flow (oauth.beforeOpen returned false)
+   */
+  status: "success" | "blocked" | "closed" | "cancelled";
+  /** URL (with OAuth response parameters) the popup returned to, when successful */
+  callbackUrl?: string;
+}
+
+export type { WebhookPayload } from "./webhook-types";
+
 /**
  * EVM Provider proxy methods for wallet operations
  */
@@ -228,6 +848,22 @@ export interface ProviderProxyMethods {
   isConnected?(): boolean;
 }
 
+/**
+ * Wallet metadata announced through EIP-6963 or Wallet Standard
+ */
+export interface WalletProviderInfo {
+  /** Unique identifier of the provider instance */
+  uuid: string;
+  /** Human readable wallet name */
+  name: string;
+  /** Wallet icon as data URI */
+  icon: string;
+  /** Reverse DNS identifier of the wallet (e.g. 'io.metamask') */
+  rdns: string;
+  /** Chains of Wallet Standard wallets (e.g. 'solana:mainnet') */
+  chains?: string[];
+}
+
 /**
  * Available wallet providers detected in parent window
  */
@@ -291,4 +927,28 @@ export type PenpalParentMethods = {
    * @returns Parent page complete URL
    */
   getParentUrl(): Promise<string>;
+  /**
+   * Notify parent when a user is logged in inside the iframe
+   * @param user - Logged in user
+   */
+  onLoggedIn(user: AuthUser): void;
+  /**
+   * Notify parent when the user logged out inside the iframe
+   */
+  onLoggedOut(): void;
+  /**
+   * Notify parent when the session of the logged in user expired
+   */
+  onSessionExpired(): void;
+  /**
+   * Notify parent when the content height changed, in auto height mode
+   * (see the child `setAutoHeight` method)
+   * @param height - Content height in CSS pixels
+   */
+  onContentResize(height: number): void;
+  /**
+   * Ask parent to close the modal or drawer the iframe is displayed in, e.g.
+   * when Escape is pressed inside the iframe. Ignored in inline mode
+   */
+  requestClose(): void;
 };
@@ -0,0 +1,216 @@
+import type { WalletProviderInfo } from "./types";
+
+/**
+ * EIP-6963 provider detail carried by `eip6963:announceProvider` events
+ */
+export interface EIP6963ProviderDetail {
+  info: WalletProviderInfo;
+  provider: any;
+}
+
+/** Prefix of provider keys discovered through EIP-6963 */
+export const EIP6963_PROVIDER_KEY_PREFIX = "eip6963:";
+
+/** Prefix of provider keys of Wallet Standard wallets */
+export const STANDARD_WALLET_KEY_PREFIX = "standard:";
+
+/**
+ * Legacy provider keys, resolved as paths on the window object
+ * - EVM: ethereum, okxwallet, onto, bitkeep.ethereum
+ * - Solana: solana, phantom.solana
+ * - Bitcoin: unisat, okxwallet.bitcoin
+ */
+export const LEGACY_PROVIDER_KEYS = [
+  "ethereum",
+  "okxwallet",
+  "onto",
+  "bitkeep.ethereum",
+  "solana",
+  "phantom.solana",
+  "unisat",
+  "okxwallet.bitcoin",
+];
+
+/**
+ * Build the provider key of an EIP-6963 provider
+ *
+ * The rdns identifies the wallet across page loads, the uuid is the fallback
+ * for wallets that don't provide one.
+ */
+export function getEip6963ProviderKey(info: WalletProviderInfo): string {
+  return `${EIP6963_PROVIDER_KEY_PREFIX}${info.rdns || info.uuid}`;
+}
+
+/**
+ * Listen for EIP-6963 provider announcements and request all installed wallets
+ * to announce themselves. Wallets that announce synchronously are reported
+ * before this function returns.
+ *
+ * @param onAnnounce - Called for every announced provider
+ * @returns Function that stops listening
+ */
+export function discoverEip6963Providers(
+  onAnnounce: (detail: EIP6963ProviderDetail) => void
+): () => void {
+  const onAnnounceEvent = (event: Event) => {
+    const detail = (event as CustomEvent<EIP6963ProviderDetail>).detail;
+    if (!detail?.info?.uuid || !detail.provider?.request) {
+      return;
+    }
+    onAnnounce(detail);
+  };
+
+  window.addEventListener("eip6963:announceProvider", onAnnounceEvent);
+  window.dispatchEvent(new Event("eip6963:requestProvider"));
+
+  return () => {
+    window.removeEventListener("eip6963:announceProvider", onAnnounceEvent);
+  };
+}
+
+/**
+ * Listen for Wallet Standard wallets supporting Solana. Wallets registered
+ * before the call are reported synchronously.
+ *
+ * @param onRegister - Called with the provider key, wallet and its metadata
+ * @returns Function that stops listening
+ */
+export function discoverStandardWallets(
+  onRegister: (key: string, wallet: any, info: WalletProviderInfo) => void
+): () => void {
+  const api = {
+    register: (...wallets: any[]) => {
+      for (const wallet of wallets) {
+        const chains: string[] = [...(wallet?.chains ?? [])];
+        if (!chains.some(chain => chain.startsWith("solana:"))) {
+          continue;
+        }
+        const key = `${STANDARD_WALLET_KEY_PREFIX}${wallet.name}`;
+        onRegister(key, wallet, {
+          uuid: key,
+          name: wallet.name,
+          icon: wallet.icon,
+          rdns: "",
+          chains,
+        });
+      }
+      return () => {};
+    },
+  };
+  // Wallets loaded later register through this event, wallets loaded
+  // earlier answer the app-ready event
+  const onRegisterEvent = (event: Event) => {
+    const callback = (event as CustomEvent).detail;
+    if (typeof callback === "function") {
+      callback(api);
+    }
+  };
+
+  window.addEventListener("wallet-standard:register-wallet", onRegisterEvent);
+  window.dispatchEvent(
+    new CustomEvent("wallet-standard:app-ready", { detail: api })
+  );
+
+  return () => {
+    window.removeEventListener(
+      "wallet-standard:register-wallet",
+      onRegisterEvent
+    );
+  };
+}
+
+/**
+ * Subscriber of the shared wallet discovery
+ */
+export interface WalletDiscoveryListener {
+  /** Called for every provider announced through EIP-6963 */
+  onEip6963Provider(detail: EIP6963ProviderDetail): void;
+  /** Called for every Wallet Standard wallet supporting Solana */
+  onStandardWallet(key: string, wallet: any, info: WalletProviderInfo): void;
+  /** Called when legacy window globals may have changed */
+  onLegacyProviders(): void;
+}
+
+/** Discovery shared by all embed instances of the page */
+const sharedDiscovery = {
+  listeners: new Set<WalletDiscoveryListener>(),
+  eip6963: new Map<string, EIP6963ProviderDetail>(),
+  standard: new Map<string, { wallet: any; info: WalletProviderInfo }>(),
+  stop: null as (() => void) | null,
+};
+
+/**
+ * Subscribe to the wallet discovery shared by all embed instances: one set
+ * of window listeners, whatever the number of instances. Wallets discovered
+ * before the subscription are reported synchronously.
+ *
+ * @param listener - Discovery callbacks
+ * @returns Function that unsubscribes, discovery stops with the last subscriber
+ */
+export function subscribeWalletDiscovery(
+  listener: WalletDiscoveryListener
+): () => void {
+  const { listeners, eip6963, standard } = sharedDiscovery;
+  listeners.add(listener);
+
+  if (!sharedDiscovery.stop) {
+    const stopEip6963 = discoverEip6963Providers(detail => {
+      eip6963.set(getEip6963ProviderKey(detail.info), detail);
+      listeners.forEach(item => item.onEip6963Provider(detail));
+    });
+    const stopStandard = discoverStandardWallets((key, wallet, info) => {
+      standard.set(key, { wallet, info });
+      listeners.forEach(item => item.onStandardWallet(key, wallet, info));
+    });
+    // Legacy wallets dispatch this event when injected after page load
+    const onLegacyInitialized = () => {
+      listeners.forEach(item => item.onLegacyProviders());
+    };
+    window.addEventListener("ethereum#initialized", onLegacyInitialized);
+
+    sharedDiscovery.stop = () => {
+      stopEip6963();
+      stopStandard();
+      window.removeEventListener("ethereum#initialized", onLegacyInitialized);
+    };
+  } else {
+    eip6963.forEach(detail => listener.onEip6963Provider(detail));
+    standard.forEach(({ wallet, info }, key) =>
+      listener.onStandardWallet(key, wallet, info)
+    );
+  }
+
+  return () => {
+    if (!listeners.delete(listener) || listeners.size > 0) return;
+    sharedDiscovery.stop?.();
+    sharedDiscovery.stop = null;
+    eip6963.clear();
+    standard.clear();
+  };
+}
+
+/**
+ * Detect wallet providers injected as window globals (pre EIP-6963 wallets)
+ */
+export function detectLegacyWalletProviders(): Record<string, any> {
+  const providers: Record<string, any> = {};
+  for (const key of LEGACY_PROVIDER_KEYS) {
+    const provider = resolveWindowPath(key);
+    if (provider) {
+      providers[key] = provider;
+    }
+  }
+  return providers;
+}
+
+/**
+ * Resolve a dotted path like `bitkeep.ethereum` on the window object
+ */
+export function resolveWindowPath(path: string): any {
+  let value: any = window;
+  for (const key of path.split(".")) {
+    value = value?.[key];
+    if (!value) return null;
+  }
+  return value;
+}
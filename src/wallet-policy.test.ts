@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyWalletRequestOverride,
+  isWalletMethodAllowed,
+  UNAUTHORIZED,
+} from "./wallet-policy";
+
+describe("applyWalletRequestOverride", () => {
+  it("applies method and params overrides to provider requests", () => {
+    const request = applyWalletRequestOverride(
+      {
+        source: "walletProvider",
+        providerKey: "ethereum",
+        method: "eth_sign",
+        params: ["0x1"],
+      },
+      { method: "personal_sign", params: ["0x2"] }
+    );
+
+    expect(request.method).toBe("personal_sign");
+    expect(request.params).toEqual(["0x2"]);
+  });
+
+  it("rejects a method override of a login signature", () => {
+    expect(() =>
+      applyWalletRequestOverride(
+        { source: "loginSignature", method: "personal_sign", params: [] },
+        { method: "eth_sign" }
+      )
+    ).toThrow(expect.objectContaining({ code: UNAUTHORIZED }));
+  });
+
+  it("applies a params override of a login signature", () => {
+    const request = applyWalletRequestOverride(
+      { source: "loginSignature", method: "personal_sign", params: ["0x1"] },
+      { method: "personal_sign", params: ["0x2"] }
+    );
+
+    expect(request.method).toBe("personal_sign");
+    expect(request.params).toEqual(["0x2"]);
+  });
+});
+
+describe("isWalletMethodAllowed", () => {
+  it("applies the rules of every key of a wallet", () => {
+    const rules = { ethereum: { deny: ["eth_sendTransaction"] } };
+
+    expect(
+      isWalletMethodAllowed(
+        rules,
+        ["eip6963:io.metamask", "ethereum"],
+        "eth_sendTransaction"
+      )
+    ).toBe(false);
+    expect(
+      isWalletMethodAllowed(
+        rules,
+        ["eip6963:io.metamask"],
+        "eth_sendTransaction"
+      )
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,106 @@
+import type {
+  WalletMethodRule,
+  WalletRequest,
+  WalletRequestOverride,
+} from "./types";
+
+/** EIP-1193 error code: the user rejected the request */
+export const USER_REJECTED_REQUEST = 4001;
+
+/** EIP-1193 error code: the method has not been authorized */
+export const UNAUTHORIZED = 4100;
+
+/**
+ * EIP-1193 style error. Sent to the iframe as a plain object because penpal
+ * only keeps the name and message of Error instances, and wallet libraries
+ * inside the iframe rely on `code`.
+ */
+export interface ProviderRpcError {
+  code: number;
+  message: string;
+}
+
+/**
+ * Create an EIP-1193 style error
+ */
+export function createProviderRpcError(
+  code: number,
+  message: string
+): ProviderRpcError {
+  return { code, message };
+}
+
+/**
+ * Apply the override returned by `onWalletRequest` to a request
+ *
+ * Login signatures are signed with the method of the authentication type, so
+ * they only accept new params: a different method is rejected with a 4100
+ * error instead of being dropped
+ */
+export function applyWalletRequestOverride(
+  request: WalletRequest,
+  override: WalletRequestOverride
+): WalletRequest {
+  if (
+    request.source === "loginSignature" &&
+    override.method !== undefined &&
+    override.method !== request.method
+  ) {
+    throw createProviderRpcError(
+      UNAUTHORIZED,
+      `The method of a login signature can't be changed to ${override.method}`
+    );
+  }
+  return {
+    ...request,
+    method: override.method ?? request.method,
+    params: override.params ?? request.params,
+  };
+}
+
+/**
+ * Check a wallet RPC method against the rules of a provider
+ *
+ * A wallet can be reachable under several keys (e.g. 'ethereum' and
+ * 'eip6963:io.metamask'), so the rules of all its keys apply and the method
+ * must satisfy each of them. The '*' rule applies when none of the keys has
+ * its own rule.
+ *
+ * @param rules - Method rules per provider key, '*' for the default rule
+ * @param providerKeys - All keys of the provider
+ * @param method - RPC method
+ * @returns true if the method is allowed
+ */
+export function isWalletMethodAllowed(
+  rules: Record<string, WalletMethodRule> | undefined,
+  providerKeys: string[],
+  method: string
+): boolean {
+  if (!rules) {
+    return true;
+  }
+  const ownRules = providerKeys
+    .filter(key => Object.prototype.hasOwnProperty.call(rules, key))
+    .map(key => rules[key]);
+  const applied = ownRules.length > 0 ? ownRules : [rules["*"]];
+  return applied.every(rule => !rule || isMethodAllowedByRule(rule, method));
+}
+
+function isMethodAllowedByRule(
+  rule: WalletMethodRule,
+  method: string
+): boolean {
+  if (rule.allow && !rule.allow.some(pattern => matchMethod(pattern, method))) {
+    return false;
+  }
+  return !rule.deny?.some(pattern => matchMethod(pattern, method));
+}
+
+/**
+ * Match a method exactly or by prefix with a trailing '*'
+ */
+function matchMethod(pattern: string, method: string): boolean {
+  return pattern.endsWith("*")
+    ? method.startsWith(pattern.slice(0, -1))
+    : pattern === method;
+}
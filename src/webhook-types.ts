@@ -0,0 +1,31 @@
+/**
+ * Webhook types shared with the Node.js entry point (must not depend on DOM types)
+ */
+
+/**
+ * Webhook payload sent when a user receives a reward
+ */
+export interface WebhookPayload {
+  /** Unique identifier of the completed task */
+  task_id: number;
+  /** Type of reward distributed */
+  reward_type: "Token" | "GTCPoints";
+  /** Numeric amount of reward distributed */
+  reward_amount: string;
+  /** Token contract address (only for Token rewards) */
+  token_contract?: string;
+  /** Token symbol (only for Token rewards) */
+  token_symbol?: string;
+  /** Blockchain network (only for Token rewards) */
+  token_network?: string;
+  /** Name of the point system (only for GTCPoints rewards) */
+  point_name?: string;
+  /** Unique identifier of the user who received the reward */
+  user_id: number;
+  /** User's email address */
+  email: string;
+  /** EVM wallet addresses associated with the user */
+  evm_address: string[];
+  /** Unix timestamp (seconds) when the reward was distributed */
+  timestamp: number;
+}